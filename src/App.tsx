@@ -1,28 +1,44 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
 import { Toaster } from './components/ui/sonner';
+import { ProtectedRoute } from './components/ProtectedRoute';
 import Login from './pages/Login';
 import Signup from './pages/Signup';
+import GuestBooking from './pages/GuestBooking';
 import Customer from './pages/Customer';
+import CustomerAppointments from './pages/CustomerAppointments';
+import ProviderProfile from './pages/ProviderProfile';
 import Provider from './pages/Provider';
 import ProviderSetup from './pages/ProviderSetup';
+import ProviderSettings from './pages/ProviderSettings';
 import './App.css';
 
 function App() {
   return (
-    <AuthProvider>
-      <Router>
+    <Router>
+      <AuthProvider>
         <Routes>
           <Route path="/" element={<Navigate to="/login" replace />} />
           <Route path="/login" element={<Login />} />
           <Route path="/signup" element={<Signup />} />
-          <Route path="/customer" element={<Customer />} />
-          <Route path="/provider" element={<Provider />} />
-          <Route path="/provider/setup" element={<ProviderSetup />} />
+          <Route path="/guest/book" element={<GuestBooking />} />
+          <Route element={<ProtectedRoute role="customer" />}>
+            <Route path="/customer" element={<Customer />} />
+            <Route path="/customer/book" element={<Customer />} />
+            <Route path="/customer/appointments" element={<CustomerAppointments />} />
+            <Route path="/providers/:id" element={<ProviderProfile />} />
+          </Route>
+          <Route element={<ProtectedRoute role="provider" requireProviderProfile />}>
+            <Route path="/provider" element={<Provider />} />
+            <Route path="/provider/settings" element={<ProviderSettings />} />
+          </Route>
+          <Route element={<ProtectedRoute role="provider" />}>
+            <Route path="/provider/setup" element={<ProviderSetup />} />
+          </Route>
         </Routes>
-      </Router>
-      <Toaster position="top-right" richColors />
-    </AuthProvider>
+        <Toaster position="top-right" richColors />
+      </AuthProvider>
+    </Router>
   );
 }
 
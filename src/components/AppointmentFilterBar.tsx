@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { AppointmentListRequest, AppointmentStatus } from '../services/api';
+import { APPOINTMENT_STATUS_CONFIG } from '../lib/appointment-status';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Search, X } from 'lucide-react';
+
+interface AppointmentFilterBarProps {
+    filters: AppointmentListRequest;
+    onChange: (filters: AppointmentListRequest) => void;
+    disabled?: boolean;
+}
+
+export function AppointmentFilterBar({ filters, onChange, disabled = false }: AppointmentFilterBarProps) {
+    // Search is applied on submit so typing does not fire a request per keystroke
+    const [searchDraft, setSearchDraft] = useState(filters.search ?? '');
+
+    useEffect(() => {
+        setSearchDraft(filters.search ?? '');
+    }, [filters.search]);
+
+    const hasFilters = !!(filters.fromDate || filters.toDate || filters.status || filters.search);
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        onChange({ ...filters, search: searchDraft.trim() || undefined });
+    };
+
+    return (
+        <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4 p-4 border rounded-lg bg-accent/50">
+            <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="appointment-search" className="text-xs">Customer</Label>
+                <div className="relative">
+                    <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input
+                        id="appointment-search"
+                        placeholder="Search by name or phone"
+                        value={searchDraft}
+                        onChange={(e) => setSearchDraft(e.target.value)}
+                        className="pl-9"
+                        disabled={disabled}
+                    />
+                </div>
+            </div>
+
+            <div className="space-y-1">
+                <Label htmlFor="appointment-status" className="text-xs">Status</Label>
+                <Select
+                    value={filters.status ?? 'all'}
+                    onValueChange={(value) => onChange({
+                        ...filters,
+                        status: value === 'all' ? undefined : value as AppointmentStatus,
+                    })}
+                    disabled={disabled}
+                >
+                    <SelectTrigger id="appointment-status">
+                        <SelectValue placeholder="All statuses" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">All statuses</SelectItem>
+                        {(Object.keys(APPOINTMENT_STATUS_CONFIG) as AppointmentStatus[]).map((status) => (
+                            <SelectItem key={status} value={status}>
+                                {APPOINTMENT_STATUS_CONFIG[status].label}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="flex items-end gap-2">
+                <Button type="submit" className="flex-1" disabled={disabled}>
+                    Search
+                </Button>
+                {hasFilters && (
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        onClick={() => onChange({})}
+                        disabled={disabled}
+                        title="Clear filters"
+                    >
+                        <X className="h-4 w-4" />
+                    </Button>
+                )}
+            </div>
+
+            <div className="space-y-1">
+                <Label htmlFor="appointment-from" className="text-xs">From</Label>
+                <Input
+                    id="appointment-from"
+                    type="date"
+                    value={filters.fromDate ?? ''}
+                    max={filters.toDate}
+                    onChange={(e) => onChange({ ...filters, fromDate: e.target.value || undefined })}
+                    disabled={disabled}
+                />
+            </div>
+
+            <div className="space-y-1">
+                <Label htmlFor="appointment-to" className="text-xs">To</Label>
+                <Input
+                    id="appointment-to"
+                    type="date"
+                    value={filters.toDate ?? ''}
+                    min={filters.fromDate}
+                    onChange={(e) => onChange({ ...filters, toDate: e.target.value || undefined })}
+                    disabled={disabled}
+                />
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { apiService, Appointment, ReminderDelivery, ReminderDeliveryStatus } from '../services/api';
+import { REMINDER_CHANNEL_CONFIG } from '../lib/reminder-template';
+import { isTerminalStatus } from '../lib/appointment-status';
+import { Button } from './ui/button';
+import { toast } from 'sonner';
+import { Bell, Loader2, RotateCw } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+interface AppointmentReminderLogProps {
+    appointment: Appointment;
+}
+
+const DELIVERY_STATUS_CONFIG: Record<ReminderDeliveryStatus, { label: string; className: string }> = {
+    scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400' },
+    sent: { label: 'Sent', className: 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-400' },
+    failed: { label: 'Failed', className: 'bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-400' },
+};
+
+export function AppointmentReminderLog({ appointment }: AppointmentReminderLogProps) {
+    const [deliveries, setDeliveries] = useState<ReminderDelivery[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [resendingId, setResendingId] = useState<string | null>(null);
+
+    // Reminding someone about a visit that is over or called off makes no sense
+    const canResend = !isTerminalStatus(appointment.status) && new Date(appointment.startTime) > new Date();
+
+    useEffect(() => {
+        loadDeliveries();
+    }, [appointment.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const loadDeliveries = async () => {
+        setIsLoading(true);
+        try {
+            const list = await apiService.listReminderDeliveries(appointment.id);
+            setDeliveries(list);
+        } catch (error) {
+            console.error('Failed to load reminder history:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to load reminder history');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleResend = async (delivery: ReminderDelivery) => {
+        setResendingId(delivery.id);
+        try {
+            const resent = await apiService.resendReminder(delivery.id);
+            setDeliveries(prev => [...prev, resent]);
+            toast.success('Reminder re-sent');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to re-send reminder');
+        } finally {
+            setResendingId(null);
+        }
+    };
+
+    const formatTimestamp = (value: string) => format(new Date(value), 'MMM d, yyyy h:mm a');
+
+    const sorted = [...deliveries].sort(
+        (a, b) => new Date(a.sentAt ?? a.scheduledFor).getTime() - new Date(b.sentAt ?? b.scheduledFor).getTime()
+    );
+
+    return (
+        <div className="pt-2 border-t">
+            <p className="text-xs font-medium text-muted-foreground mb-2">Reminder History</p>
+            {isLoading ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading reminders...
+                </div>
+            ) : sorted.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No reminders scheduled for this appointment.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {sorted.map((delivery) => {
+                        const ChannelIcon = REMINDER_CHANNEL_CONFIG[delivery.channel]?.icon ?? Bell;
+                        return (
+                            <li key={delivery.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                                <div className="flex items-center gap-2">
+                                    <ChannelIcon className="h-4 w-4 text-muted-foreground" />
+                                    <span>{REMINDER_CHANNEL_CONFIG[delivery.channel]?.label ?? delivery.channel}</span>
+                                    <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', DELIVERY_STATUS_CONFIG[delivery.status].className)}>
+                                        {DELIVERY_STATUS_CONFIG[delivery.status].label}
+                                    </span>
+                                    {!delivery.reminderScheduleId && (
+                                        <span className="text-xs text-muted-foreground">(manual)</span>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <span className="text-xs text-muted-foreground">
+                                        {delivery.sentAt
+                                            ? `${delivery.status === 'failed' ? 'Attempted' : 'Sent'} ${formatTimestamp(delivery.sentAt)}`
+                                            : `Due ${formatTimestamp(delivery.scheduledFor)}`}
+                                    </span>
+                                    {delivery.status !== 'scheduled' && canResend && (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-7 px-2"
+                                            onClick={() => handleResend(delivery)}
+                                            disabled={resendingId !== null}
+                                            title="Send this reminder again"
+                                        >
+                                            {resendingId === delivery.id ? (
+                                                <Loader2 className="h-3 w-3 animate-spin" />
+                                            ) : (
+                                                <RotateCw className="h-3 w-3" />
+                                            )}
+                                            <span className="ml-1">Re-send</span>
+                                        </Button>
+                                    )}
+                                </div>
+                                {delivery.failureReason && (
+                                    <p className="w-full text-xs text-red-600 dark:text-red-400">{delivery.failureReason}</p>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
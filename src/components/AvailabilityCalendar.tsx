@@ -0,0 +1,115 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, format, isSameMonth, parseISO, startOfDay } from 'date-fns';
+import { AvailableDate } from '../services/api';
+import { Calendar } from './ui/calendar';
+import { cn } from '../lib/utils';
+
+interface AvailabilityCalendarProps {
+    dates: AvailableDate[];
+    selectedDate: string; // YYYY-MM-DD format
+    onSelect: (date: string) => void;
+    bookingLimitDays: number;
+    disabled?: boolean;
+}
+
+// Consecutive dates sharing a note, listed once in the legend
+interface ReasonRange {
+    start: Date;
+    end: Date;
+    entry: AvailableDate;
+}
+
+// Overrides are always worth explaining, even when the provider left no reason
+const hasNote = (entry: AvailableDate) => Boolean(entry.reason || entry.overrideType);
+
+const noteLabel = (entry: AvailableDate) => {
+    const label = entry.overrideType === 'closed' ? 'Closed'
+        : entry.overrideType === 'extra_hours' ? 'Extra hours'
+        : entry.isAvailable ? 'Open' : 'Unavailable';
+    return entry.reason ? `${label}: ${entry.reason}` : label;
+};
+
+const groupReasons = (dates: AvailableDate[]): ReasonRange[] => {
+    const ranges: ReasonRange[] = [];
+    [...dates]
+        .filter(hasNote)
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .forEach((entry) => {
+            const day = parseISO(entry.date.slice(0, 10));
+            const last = ranges[ranges.length - 1];
+            if (last && noteLabel(last.entry) === noteLabel(entry) && last.entry.isAvailable === entry.isAvailable
+                && addDays(last.end, 1).getTime() === day.getTime()) {
+                last.end = day;
+            } else {
+                ranges.push({ start: day, end: day, entry });
+            }
+        });
+    return ranges;
+};
+
+export function AvailabilityCalendar({ dates, selectedDate, onSelect, bookingLimitDays, disabled = false }: AvailabilityCalendarProps) {
+    // Paging is bounded by the provider's booking window
+    const fromDate = startOfDay(new Date());
+    const toDate = addDays(fromDate, Math.max(bookingLimitDays - 1, 0));
+    const [month, setMonth] = useState(() => (selectedDate ? parseISO(selectedDate) : fromDate));
+
+    // Follow dates picked outside the calendar, e.g. restored from a booking link
+    useEffect(() => {
+        if (selectedDate) setMonth(parseISO(selectedDate));
+    }, [selectedDate]);
+
+    const availableKeys = useMemo(
+        () => new Set(dates.filter(d => d.isAvailable).map(d => d.date.slice(0, 10))),
+        [dates]
+    );
+    const reasonRanges = useMemo(() => groupReasons(dates), [dates]);
+
+    const isUnavailable = (day: Date) => disabled || !availableKeys.has(format(day, 'yyyy-MM-dd'));
+
+    // Reasons can't live on the day buttons: disabled buttons get no hover or focus,
+    // so closed days are only marked here and explained in the legend below
+    const notedDays = dates.filter(hasNote).map(d => parseISO(d.date.slice(0, 10)));
+    const closedNotedDays = dates.filter(d => hasNote(d) && !d.isAvailable).map(d => parseISO(d.date.slice(0, 10)));
+    const visibleReasons = reasonRanges.filter(r => isSameMonth(r.start, month) || isSameMonth(r.end, month));
+
+    const formatRange = (range: ReasonRange) => range.start.getTime() === range.end.getTime()
+        ? format(range.start, 'EEE, MMM d')
+        : `${format(range.start, 'MMM d')} - ${format(range.end, 'MMM d')}`;
+
+    return (
+        <div className="space-y-3">
+            <Calendar
+                mode="single"
+                selected={selectedDate ? parseISO(selectedDate) : undefined}
+                onSelect={(day) => day && onSelect(format(day, 'yyyy-MM-dd'))}
+                month={month}
+                onMonthChange={setMonth}
+                fromDate={fromDate}
+                toDate={toDate}
+                disabled={isUnavailable}
+                showOutsideDays={false}
+                modifiers={{ noted: notedDays, closedNoted: closedNotedDays }}
+                modifiersClassNames={{
+                    // Open days with a note (e.g. special hours) get a dot; closed ones are struck through
+                    noted: "relative after:absolute after:bottom-1 after:left-1/2 after:h-1 after:w-1 after:-translate-x-1/2 after:rounded-full after:bg-primary after:content-['']",
+                    closedNoted: 'line-through after:hidden',
+                }}
+                className="rounded-md border w-fit"
+            />
+            {visibleReasons.length > 0 && (
+                <ul className="space-y-1 text-sm" aria-label="Notes for this month">
+                    {visibleReasons.map((range) => (
+                        <li key={range.start.toISOString()} className="flex gap-2">
+                            <span className={cn('font-medium whitespace-nowrap', !range.entry.isAvailable && 'line-through text-muted-foreground')}>
+                                {formatRange(range)}
+                            </span>
+                            <span className="text-muted-foreground">
+                                {noteLabel(range.entry)}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Appointment } from '../services/api';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from './ui/alert-dialog';
+import { XCircle } from 'lucide-react';
+
+interface CancelAppointmentDialogProps {
+    appointment: Appointment;
+    onConfirm: (reason: string) => void;
+    cancelledBy?: 'customer' | 'provider';
+    disabled?: boolean;
+}
+
+export function CancelAppointmentDialog({ appointment, onConfirm, cancelledBy = 'customer', disabled = false }: CancelAppointmentDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [reason, setReason] = useState('');
+
+    // Providers may require a minimum notice before the start time; it only binds customers
+    const noticeHours = cancelledBy === 'customer' ? appointment.provider?.cancellationNoticeHours ?? 0 : 0;
+    const hoursUntilStart = (new Date(appointment.startTime).getTime() - Date.now()) / (1000 * 60 * 60);
+    const isWithinNotice = hoursUntilStart < noticeHours;
+
+    const handleOpenChange = (value: boolean) => {
+        setOpen(value);
+        if (!value) {
+            setReason('');
+        }
+    };
+
+    const handleConfirm = (e: React.MouseEvent) => {
+        if (!reason.trim()) {
+            // Keep the dialog open until a reason is given
+            e.preventDefault();
+            return;
+        }
+        onConfirm(reason.trim());
+        setReason('');
+    };
+
+    if (isWithinNotice) {
+        return (
+            <Button
+                variant="outline"
+                size="sm"
+                disabled
+                title={`Cancellations require at least ${noticeHours} hour${noticeHours !== 1 ? 's' : ''} notice`}
+            >
+                <XCircle className="mr-2 h-4 w-4" />
+                Cancel
+            </Button>
+        );
+    }
+
+    return (
+        <AlertDialog open={open} onOpenChange={handleOpenChange}>
+            <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" className="text-destructive hover:text-destructive" disabled={disabled}>
+                    <XCircle className="mr-2 h-4 w-4" />
+                    Cancel
+                </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <AlertDialogTitle>Cancel this appointment?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                        {cancelledBy === 'provider'
+                            ? `${appointment.customer?.user?.firstName ?? 'The customer'}'s booking will be released and they will see your reason. `
+                            : appointment.provider?.businessName
+                                ? `Your booking with ${appointment.provider.businessName} will be released. `
+                                : 'Your booking will be released. '}
+                        This cannot be undone.
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <div className="space-y-2">
+                    <Label htmlFor={`cancel-reason-${appointment.id}`}>Reason *</Label>
+                    <Textarea
+                        id={`cancel-reason-${appointment.id}`}
+                        placeholder={cancelledBy === 'provider'
+                            ? 'Let the customer know why this appointment is cancelled...'
+                            : 'Let the provider know why you are cancelling...'}
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        rows={3}
+                    />
+                    {noticeHours > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                            This provider requires at least {noticeHours} hour{noticeHours !== 1 ? 's' : ''} notice for cancellations.
+                        </p>
+                    )}
+                </div>
+                <AlertDialogFooter>
+                    <AlertDialogCancel>Keep Appointment</AlertDialogCancel>
+                    <AlertDialogAction
+                        onClick={handleConfirm}
+                        disabled={!reason.trim()}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                        Cancel Appointment
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
@@ -0,0 +1,11 @@
+interface FieldErrorProps {
+    message?: string;
+}
+
+// Inline validation message shown under a form input
+export function FieldError({ message }: FieldErrorProps) {
+    if (!message) {
+        return null;
+    }
+    return <p className="text-sm font-medium text-destructive">{message}</p>;
+}
@@ -0,0 +1,78 @@
+import {
+    Pagination,
+    PaginationContent,
+    PaginationEllipsis,
+    PaginationItem,
+    PaginationLink,
+    PaginationNext,
+    PaginationPrevious,
+} from './ui/pagination';
+
+interface ListPaginationProps {
+    page: number;
+    totalPages: number;
+    buildHref: (page: number) => string;
+    onPageChange: (page: number) => void;
+}
+
+// Pages shown around the current one before collapsing into an ellipsis
+const SIBLING_COUNT = 1;
+
+export function ListPagination({ page, totalPages, buildHref, onPageChange }: ListPaginationProps) {
+    if (totalPages <= 1) {
+        return null;
+    }
+
+    const pages: (number | 'ellipsis')[] = [];
+    for (let p = 1; p <= totalPages; p++) {
+        const isEdge = p === 1 || p === totalPages;
+        const isNear = Math.abs(p - page) <= SIBLING_COUNT;
+        if (isEdge || isNear) {
+            pages.push(p);
+        } else if (pages[pages.length - 1] !== 'ellipsis') {
+            pages.push('ellipsis');
+        }
+    }
+
+    // Keep real hrefs so pages can be opened in a new tab, but navigate in-app on click
+    const handleClick = (target: number) => (e: React.MouseEvent) => {
+        e.preventDefault();
+        if (target >= 1 && target <= totalPages && target !== page) {
+            onPageChange(target);
+        }
+    };
+
+    return (
+        <Pagination className="mt-4">
+            <PaginationContent>
+                <PaginationItem>
+                    <PaginationPrevious
+                        href={buildHref(Math.max(page - 1, 1))}
+                        onClick={handleClick(page - 1)}
+                        aria-disabled={page <= 1}
+                        className={page <= 1 ? 'pointer-events-none opacity-50' : undefined}
+                    />
+                </PaginationItem>
+                {pages.map((p, index) => (
+                    <PaginationItem key={p === 'ellipsis' ? `ellipsis-${index}` : p}>
+                        {p === 'ellipsis' ? (
+                            <PaginationEllipsis />
+                        ) : (
+                            <PaginationLink href={buildHref(p)} isActive={p === page} onClick={handleClick(p)}>
+                                {p}
+                            </PaginationLink>
+                        )}
+                    </PaginationItem>
+                ))}
+                <PaginationItem>
+                    <PaginationNext
+                        href={buildHref(Math.min(page + 1, totalPages))}
+                        onClick={handleClick(page + 1)}
+                        aria-disabled={page >= totalPages}
+                        className={page >= totalPages ? 'pointer-events-none opacity-50' : undefined}
+                    />
+                </PaginationItem>
+            </PaginationContent>
+        </Pagination>
+    );
+}
@@ -0,0 +1,41 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth, LoginLocationState } from '../contexts/AuthContext';
+import { User } from '../services/api';
+import { HOME_BY_ROLE } from '../lib/role-routes';
+import { Loader2 } from 'lucide-react';
+
+interface ProtectedRouteProps {
+    role: User['userType'];
+    requireProviderProfile?: boolean; // Providers without a providerId are sent to setup first
+}
+
+export function ProtectedRoute({ role, requireProviderProfile = false }: ProtectedRouteProps) {
+    const { user, isLoading } = useAuth();
+    const location = useLocation();
+
+    if (isLoading) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+                <div className="text-center">
+                    <Loader2 className="h-12 w-12 animate-spin mx-auto text-primary" />
+                    <p className="mt-4 text-muted-foreground">Loading...</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (!user) {
+        const state: LoginLocationState = { from: `${location.pathname}${location.search}` };
+        return <Navigate to="/login" replace state={state} />;
+    }
+
+    if (user.userType !== role) {
+        return <Navigate to={HOME_BY_ROLE[user.userType]} replace />;
+    }
+
+    if (requireProviderProfile && user.userType === 'provider' && !user.providerId) {
+        return <Navigate to="/provider/setup" replace />;
+    }
+
+    return <Outlet />;
+}
@@ -0,0 +1,283 @@
+import { useEffect, useMemo, useState } from 'react';
+import { addDays, format, isSameDay, startOfDay, startOfWeek } from 'date-fns';
+import { apiService, Appointment, ScheduleConfig } from '../services/api';
+import { APPOINTMENT_STATUS_CONFIG } from '../lib/appointment-status';
+import { toMinutes } from '../lib/schedule-time';
+import { Button } from './ui/button';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { toast } from 'sonner';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+type AgendaMode = 'day' | 'week';
+
+interface ProviderAgendaViewProps {
+    schedules: ScheduleConfig[];
+    onSelectAppointment: (appointment: Appointment) => void;
+    refreshKey?: number; // Bump to reload the visible range
+}
+
+const HOUR_HEIGHT = 48; // px per hour row
+const AGENDA_PAGE_SIZE = 100;
+const DEFAULT_START_HOUR = 8;
+const DEFAULT_END_HOUR = 18;
+
+interface AgendaLane {
+    lane: number;
+    laneCount: number;
+}
+
+// Side-by-side lanes for one day's bookings: each booking takes the first lane that is free
+// at its start, and every booking in a cluster of overlaps splits the width by that cluster's lanes
+const layoutLanes = (appointments: Appointment[]): Map<string, AgendaLane> => {
+    const layout = new Map<string, AgendaLane>();
+    const sorted = [...appointments].sort((a, b) =>
+        toMinutes(a.startTime) - toMinutes(b.startTime) || toMinutes(b.endTime) - toMinutes(a.endTime)
+    );
+
+    let cluster: { id: string; lane: number }[] = [];
+    let laneEnds: number[] = [];
+    let clusterEnd = -1;
+    const closeCluster = () => {
+        cluster.forEach(({ id, lane }) => layout.set(id, { lane, laneCount: laneEnds.length }));
+        cluster = [];
+        laneEnds = [];
+    };
+
+    sorted.forEach((appointment) => {
+        const start = toMinutes(appointment.startTime);
+        const end = toMinutes(appointment.endTime);
+        if (start >= clusterEnd) {
+            closeCluster();
+        }
+        let lane = laneEnds.findIndex(laneEnd => laneEnd <= start);
+        if (lane === -1) {
+            lane = laneEnds.length;
+            laneEnds.push(end);
+        } else {
+            laneEnds[lane] = end;
+        }
+        cluster.push({ id: appointment.id, lane });
+        clusterEnd = Math.max(clusterEnd, end);
+    });
+    closeCluster();
+
+    return layout;
+};
+
+export function ProviderAgendaView({ schedules, onSelectAppointment, refreshKey = 0 }: ProviderAgendaViewProps) {
+    const [mode, setMode] = useState<AgendaMode>('week');
+    const [anchorDate, setAnchorDate] = useState(() => startOfDay(new Date()));
+    const [appointments, setAppointments] = useState<Appointment[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const days = useMemo(() => {
+        if (mode === 'day') {
+            return [anchorDate];
+        }
+        const weekStart = startOfWeek(anchorDate);
+        return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+    }, [mode, anchorDate]);
+
+    const fromDate = format(days[0], 'yyyy-MM-dd');
+    const toDate = format(days[days.length - 1], 'yyyy-MM-dd');
+
+    // Everything in the visible range, independent of the list's filters and page;
+    // responses for a range the user already navigated away from are dropped
+    useEffect(() => {
+        let isStale = false;
+        const loadAppointments = async () => {
+            setIsLoading(true);
+            try {
+                const items: Appointment[] = [];
+                let page = 1;
+                let totalPages = 1;
+                do {
+                    const result = await apiService.getProviderAppointments({ fromDate, toDate, page, pageSize: AGENDA_PAGE_SIZE });
+                    items.push(...result.items);
+                    totalPages = result.totalPages;
+                    page++;
+                } while (page <= totalPages && !isStale);
+                if (!isStale) setAppointments(items);
+            } catch (error) {
+                if (!isStale) {
+                    console.error('Failed to load agenda:', error);
+                    toast.error(error instanceof Error ? error.message : 'Failed to load appointments');
+                    setAppointments([]);
+                }
+            } finally {
+                if (!isStale) setIsLoading(false);
+            }
+        };
+        loadAppointments();
+
+        return () => {
+            isStale = true;
+        };
+    }, [fromDate, toDate, refreshKey]);
+
+    // Fit the grid to working hours and bookings, whichever is wider
+    const [startHour, endHour] = useMemo(() => {
+        let min = DEFAULT_START_HOUR * 60;
+        let max = DEFAULT_END_HOUR * 60;
+        schedules.filter(s => s.isActive !== false).forEach((s) => {
+            min = Math.min(min, toMinutes(s.startTime));
+            max = Math.max(max, toMinutes(s.endTime));
+        });
+        appointments.forEach((a) => {
+            if (days.some(d => isSameDay(d, new Date(a.startTime)))) {
+                min = Math.min(min, toMinutes(a.startTime));
+                max = Math.max(max, toMinutes(a.endTime));
+            }
+        });
+        return [Math.floor(min / 60), Math.min(Math.ceil(max / 60), 24)];
+    }, [schedules, appointments, days]);
+
+    const hours = Array.from({ length: endHour - startHour }, (_, i) => startHour + i);
+    const gridHeight = hours.length * HOUR_HEIGHT;
+
+    const toOffset = (minutes: number) => ((minutes - startHour * 60) / 60) * HOUR_HEIGHT;
+
+    const shift = (direction: 1 | -1) => {
+        setAnchorDate(prev => addDays(prev, direction * (mode === 'day' ? 1 : 7)));
+    };
+
+    const formatHour = (hour: number) => format(new Date(2000, 0, 1, hour), 'h a');
+
+    const rangeLabel = mode === 'day'
+        ? format(anchorDate, 'EEEE, MMM d, yyyy')
+        : `${format(days[0], 'MMM d')} - ${format(days[days.length - 1], 'MMM d, yyyy')}`;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                    <Button variant="outline" size="icon" onClick={() => shift(-1)} title="Previous">
+                        <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setAnchorDate(startOfDay(new Date()))}>
+                        Today
+                    </Button>
+                    <Button variant="outline" size="icon" onClick={() => shift(1)} title="Next">
+                        <ChevronRight className="h-4 w-4" />
+                    </Button>
+                    <span className="ml-2 text-sm font-medium">{rangeLabel}</span>
+                    {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                </div>
+                <ToggleGroup
+                    type="single"
+                    value={mode}
+                    onValueChange={(value) => value && setMode(value as AgendaMode)}
+                    variant="outline"
+                    size="sm"
+                >
+                    <ToggleGroupItem value="day">Day</ToggleGroupItem>
+                    <ToggleGroupItem value="week">Week</ToggleGroupItem>
+                </ToggleGroup>
+            </div>
+
+            <div className="overflow-x-auto border rounded-lg">
+                <div className={cn('grid', mode === 'week' ? 'min-w-[720px]' : '')} style={{ gridTemplateColumns: `56px repeat(${days.length}, minmax(0, 1fr))` }}>
+                    {/* Header row */}
+                    <div className="border-b" />
+                    {days.map((day) => (
+                        <div
+                            key={day.toISOString()}
+                            className={cn(
+                                'border-b border-l px-2 py-2 text-center text-xs font-medium',
+                                isSameDay(day, new Date()) && 'bg-primary/10 text-primary'
+                            )}
+                        >
+                            <div>{format(day, 'EEE')}</div>
+                            <div className="text-base">{format(day, 'd')}</div>
+                        </div>
+                    ))}
+
+                    {/* Hour labels */}
+                    <div className="relative" style={{ height: gridHeight }}>
+                        {hours.map((hour) => (
+                            <div
+                                key={hour}
+                                className="absolute right-2 -translate-y-1/2 text-[10px] text-muted-foreground"
+                                style={{ top: (hour - startHour) * HOUR_HEIGHT }}
+                            >
+                                {hour !== startHour && formatHour(hour)}
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Day columns */}
+                    {days.map((day) => {
+                        const daySchedules = schedules.filter(s => s.isActive !== false && s.dayOfWeek === day.getDay());
+                        const dayAppointments = appointments.filter(a => isSameDay(new Date(a.startTime), day));
+                        const lanes = layoutLanes(dayAppointments);
+
+                        return (
+                            <div key={day.toISOString()} className="relative border-l" style={{ height: gridHeight }}>
+                                {hours.map((hour) => (
+                                    <div
+                                        key={hour}
+                                        className="absolute inset-x-0 border-t border-dashed border-border/60"
+                                        style={{ top: (hour - startHour) * HOUR_HEIGHT }}
+                                    />
+                                ))}
+
+                                {/* Working hours overlay */}
+                                {daySchedules.map((schedule) => (
+                                    <div
+                                        key={schedule.id}
+                                        className="absolute inset-x-0 bg-green-100/60 dark:bg-green-900/20"
+                                        style={{
+                                            top: toOffset(toMinutes(schedule.startTime)),
+                                            height: toOffset(toMinutes(schedule.endTime)) - toOffset(toMinutes(schedule.startTime)),
+                                        }}
+                                        title="Working hours"
+                                    />
+                                ))}
+
+                                {dayAppointments.map((appointment) => {
+                                    const top = toOffset(toMinutes(appointment.startTime));
+                                    const height = Math.max(toOffset(toMinutes(appointment.endTime)) - top, 18);
+                                    const { lane, laneCount } = lanes.get(appointment.id) ?? { lane: 0, laneCount: 1 };
+                                    return (
+                                        <button
+                                            key={appointment.id}
+                                            type="button"
+                                            onClick={() => onSelectAppointment(appointment)}
+                                            className={cn(
+                                                'absolute overflow-hidden rounded-md border px-1.5 py-0.5 text-left text-[11px] leading-tight shadow-sm hover:ring-2 hover:ring-ring focus:outline-none focus:ring-2 focus:ring-ring',
+                                                APPOINTMENT_STATUS_CONFIG[appointment.status]?.className
+                                            )}
+                                            style={{
+                                                top,
+                                                height,
+                                                left: `calc(${(lane / laneCount) * 100}% + 2px)`,
+                                                width: `calc(${100 / laneCount}% - 4px)`,
+                                            }}
+                                            title={`${appointment.customer?.user?.firstName ?? ''} ${appointment.customer?.user?.lastName ?? ''}`.trim()}
+                                        >
+                                            <div className="font-semibold truncate">
+                                                {appointment.customer?.user?.firstName} {appointment.customer?.user?.lastName}
+                                            </div>
+                                            <div className="truncate">
+                                                {format(new Date(appointment.startTime), 'h:mm a')} - {format(new Date(appointment.endTime), 'h:mm a')}
+                                            </div>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                <div className="flex items-center gap-1">
+                    <span className="inline-block h-3 w-3 rounded-sm bg-green-100 dark:bg-green-900/20 border" />
+                    Working hours
+                </div>
+                <span>Click an appointment to open its details</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { apiService, Provider } from '../services/api';
+import { formatProviderType } from '../lib/provider-types';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
+import { Dialog, DialogContent } from './ui/dialog';
+import { Button } from './ui/button';
+import { Briefcase, Loader2, Search } from 'lucide-react';
+
+interface ProviderQuickSearchProps {
+    onSelect: (provider: Provider) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const QUICK_SEARCH_LIMIT = 8;
+
+export function ProviderQuickSearch({ onSelect }: ProviderQuickSearchProps) {
+    const [open, setOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<Provider[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+
+    // Ctrl+K / Cmd+K opens the palette from anywhere on the page
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'k' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                setOpen(prev => !prev);
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    useEffect(() => {
+        if (!open) return;
+        let isStale = false;
+        const timer = setTimeout(async () => {
+            setIsSearching(true);
+            try {
+                const providers = await apiService.searchProviders({
+                    query: query.trim() || undefined,
+                    limit: QUICK_SEARCH_LIMIT,
+                });
+                if (!isStale) setResults(providers);
+            } catch {
+                // The palette stays quiet; the full search shows errors
+                if (!isStale) setResults([]);
+            } finally {
+                if (!isStale) setIsSearching(false);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            isStale = true;
+            clearTimeout(timer);
+        };
+    }, [open, query]);
+
+    const handleSelect = (provider: Provider) => {
+        setOpen(false);
+        setQuery('');
+        onSelect(provider);
+    };
+
+    return (
+        <>
+            <Button variant="outline" onClick={() => setOpen(true)} className="text-muted-foreground">
+                <Search className="mr-2 h-4 w-4" />
+                Quick search
+                <kbd className="ml-3 hidden sm:inline-flex h-5 items-center rounded border bg-muted px-1.5 font-mono text-[10px]">
+                    Ctrl K
+                </kbd>
+            </Button>
+            <Dialog open={open} onOpenChange={setOpen}>
+                <DialogContent className="overflow-hidden p-0">
+                    {/* Results are already filtered server-side, so cmdk's own filtering is off */}
+                    <Command shouldFilter={false} className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3">
+                        <CommandInput
+                            placeholder="Search providers by name, business or specialization..."
+                            value={query}
+                            onValueChange={setQuery}
+                        />
+                        <CommandList>
+                            {isSearching && results.length === 0 ? (
+                                <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                    Searching...
+                                </div>
+                            ) : (
+                                <CommandEmpty>No providers found.</CommandEmpty>
+                            )}
+                            {results.length > 0 && (
+                                <CommandGroup heading="Providers">
+                                    {results.map((provider) => (
+                                        <CommandItem
+                                            key={provider.id}
+                                            value={provider.id}
+                                            onSelect={() => handleSelect(provider)}
+                                        >
+                                            <Briefcase className="mr-2 h-4 w-4 text-muted-foreground" />
+                                            <div className="min-w-0">
+                                                <p className="truncate">{provider.businessName}</p>
+                                                <p className="text-xs text-muted-foreground truncate">
+                                                    {provider.firstName} {provider.lastName} · {formatProviderType(provider.providerType)}
+                                                    {provider.specialization && ` · ${provider.specialization}`}
+                                                </p>
+                                            </div>
+                                        </CommandItem>
+                                    ))}
+                                </CommandGroup>
+                            )}
+                        </CommandList>
+                    </Command>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
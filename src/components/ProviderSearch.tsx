@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { apiService, Provider } from '../services/api';
+import { PROVIDER_TYPES, formatProviderType } from '../lib/provider-types';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { toast } from 'sonner';
+import { CalendarCheck, Loader2, Search, UserCircle, X } from 'lucide-react';
+
+interface ProviderSearchProps {
+    onSelect: (provider: Provider) => void;
+    showProfileLink?: boolean; // Profiles need an account, so guests only get the Book action
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_LIMIT = 20;
+
+const AVAILABILITY_OPTIONS = [
+    { value: 'any', label: 'Any time' },
+    { value: '3', label: 'Within 3 days' },
+    { value: '7', label: 'Within a week' },
+    { value: '14', label: 'Within 2 weeks' },
+    { value: '30', label: 'Within a month' },
+];
+
+export function ProviderSearch({ onSelect, showProfileLink = true }: ProviderSearchProps) {
+    const navigate = useNavigate();
+    const [query, setQuery] = useState('');
+    const [providerTypes, setProviderTypes] = useState<string[]>([]);
+    const [availableWithin, setAvailableWithin] = useState('any');
+    const [results, setResults] = useState<Provider[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+
+    // Search as the filters change, dropping responses that arrive after a newer search started
+    useEffect(() => {
+        let isStale = false;
+        const timer = setTimeout(async () => {
+            setIsSearching(true);
+            try {
+                const providers = await apiService.searchProviders({
+                    query: query.trim() || undefined,
+                    providerTypes: providerTypes.length > 0 ? providerTypes : undefined,
+                    availableWithinDays: availableWithin === 'any' ? undefined : parseInt(availableWithin),
+                    limit: SEARCH_LIMIT,
+                });
+                if (!isStale) setResults(providers);
+            } catch (error) {
+                if (!isStale) {
+                    toast.error(error instanceof Error ? error.message : 'Failed to search providers');
+                    setResults([]);
+                }
+            } finally {
+                if (!isStale) setIsSearching(false);
+            }
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            isStale = true;
+            clearTimeout(timer);
+        };
+    }, [query, providerTypes, availableWithin]);
+
+    const hasFilters = !!query || providerTypes.length > 0 || availableWithin !== 'any';
+
+    const clearFilters = () => {
+        setQuery('');
+        setProviderTypes([]);
+        setAvailableWithin('any');
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1 md:col-span-2">
+                    <Label htmlFor="provider-search" className="text-xs">Search</Label>
+                    <div className="relative">
+                        <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                        <Input
+                            id="provider-search"
+                            placeholder="Name, business or specialization"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            className="pl-9"
+                        />
+                    </div>
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor="provider-availability" className="text-xs">Available</Label>
+                    <Select value={availableWithin} onValueChange={setAvailableWithin}>
+                        <SelectTrigger id="provider-availability">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {AVAILABILITY_OPTIONS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <ToggleGroup
+                    type="multiple"
+                    variant="outline"
+                    size="sm"
+                    value={providerTypes}
+                    onValueChange={setProviderTypes}
+                    className="flex-wrap justify-start"
+                    aria-label="Provider types"
+                >
+                    {PROVIDER_TYPES.map((type) => (
+                        <ToggleGroupItem key={type.value} value={type.value}>
+                            {type.label}
+                        </ToggleGroupItem>
+                    ))}
+                </ToggleGroup>
+                {hasFilters && (
+                    <Button type="button" variant="ghost" size="sm" onClick={clearFilters}>
+                        <X className="mr-1 h-4 w-4" />
+                        Clear
+                    </Button>
+                )}
+            </div>
+
+            {isSearching && results.length === 0 ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Searching providers...
+                </div>
+            ) : results.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">
+                    No providers match your search
+                </p>
+            ) : (
+                <ul className={`divide-y rounded-md border ${isSearching ? 'opacity-60' : ''}`}>
+                    {results.map((provider) => (
+                        <li key={provider.id} className="flex flex-wrap items-center justify-between gap-3 p-3">
+                            <div className="min-w-0">
+                                <p className="font-medium truncate">
+                                    {provider.businessName}
+                                    <Badge variant="secondary" className="ml-2 align-middle">
+                                        {formatProviderType(provider.providerType)}
+                                    </Badge>
+                                </p>
+                                <p className="text-sm text-muted-foreground truncate">
+                                    {provider.firstName} {provider.lastName}
+                                    {provider.specialization && ` · ${provider.specialization}`}
+                                </p>
+                            </div>
+                            <div className="flex gap-2">
+                                {showProfileLink && (
+                                    <Button variant="ghost" size="sm" onClick={() => navigate(`/providers/${provider.id}`)}>
+                                        <UserCircle className="mr-1 h-4 w-4" />
+                                        Profile
+                                    </Button>
+                                )}
+                                <Button size="sm" onClick={() => onSelect(provider)}>
+                                    <CalendarCheck className="mr-1 h-4 w-4" />
+                                    Book
+                                </Button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,120 @@
+import { useRef } from 'react';
+import { Appointment, FieldErrors, ReminderChannel } from '../services/api';
+import {
+    REMINDER_CHANNEL_CONFIG,
+    REMINDER_PLACEHOLDERS,
+    findUnknownPlaceholders,
+    renderReminderTemplate,
+} from '../lib/reminder-template';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { FieldError } from './FieldError';
+
+interface ReminderMessageEditorProps {
+    idPrefix: string; // Keeps label/input ids unique when several editors are on the page
+    channel: ReminderChannel;
+    messageTemplate: string;
+    onChange: (changes: { channel?: ReminderChannel; messageTemplate?: string }) => void;
+    sampleAppointment: Appointment;
+    fieldErrors?: FieldErrors;
+}
+
+export function ReminderMessageEditor({
+    idPrefix,
+    channel,
+    messageTemplate,
+    onChange,
+    sampleAppointment,
+    fieldErrors = {},
+}: ReminderMessageEditorProps) {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    const preview = renderReminderTemplate(messageTemplate, sampleAppointment);
+    const unknownPlaceholders = findUnknownPlaceholders(messageTemplate);
+    const segmentLength = REMINDER_CHANNEL_CONFIG[channel].segmentLength;
+    const segments = segmentLength ? Math.max(Math.ceil(preview.length / segmentLength), 1) : 1;
+
+    // Insert at the cursor so placeholders can go mid-sentence
+    const insertPlaceholder = (key: string) => {
+        const token = `{{${key}}}`;
+        const textarea = textareaRef.current;
+        const start = textarea?.selectionStart ?? messageTemplate.length;
+        const end = textarea?.selectionEnd ?? messageTemplate.length;
+        onChange({ messageTemplate: messageTemplate.slice(0, start) + token + messageTemplate.slice(end) });
+
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(start + token.length, start + token.length);
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}-channel`}>Channel *</Label>
+                <Select value={channel} onValueChange={(value) => onChange({ channel: value as ReminderChannel })}>
+                    <SelectTrigger id={`${idPrefix}-channel`} className="md:w-1/2" aria-invalid={!!fieldErrors.channel}>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {(Object.keys(REMINDER_CHANNEL_CONFIG) as ReminderChannel[]).map((key) => {
+                            const Icon = REMINDER_CHANNEL_CONFIG[key].icon;
+                            return (
+                                <SelectItem key={key} value={key}>
+                                    <div className="flex items-center gap-2">
+                                        <Icon className="h-4 w-4" />
+                                        {REMINDER_CHANNEL_CONFIG[key].label}
+                                    </div>
+                                </SelectItem>
+                            );
+                        })}
+                    </SelectContent>
+                </Select>
+                <FieldError message={fieldErrors.channel} />
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor={`${idPrefix}-template`}>Message *</Label>
+                <Textarea
+                    id={`${idPrefix}-template`}
+                    ref={textareaRef}
+                    aria-invalid={!!fieldErrors.messageTemplate}
+                    rows={3}
+                    value={messageTemplate}
+                    onChange={(e) => onChange({ messageTemplate: e.target.value })}
+                />
+                <FieldError message={fieldErrors.messageTemplate} />
+                <div className="flex flex-wrap gap-1">
+                    {REMINDER_PLACEHOLDERS.map((placeholder) => (
+                        <button
+                            key={placeholder.key}
+                            type="button"
+                            onClick={() => insertPlaceholder(placeholder.key)}
+                            className="rounded-full border px-2 py-0.5 text-xs text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+                            title={`Insert {{${placeholder.key}}}`}
+                        >
+                            + {placeholder.label}
+                        </button>
+                    ))}
+                </div>
+                {unknownPlaceholders.length > 0 && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400">
+                        Unknown placeholder{unknownPlaceholders.length !== 1 ? 's' : ''}: {unknownPlaceholders.map(key => `{{${key}}}`).join(', ')}. They will be sent as written.
+                    </p>
+                )}
+            </div>
+
+            <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">Preview for a sample booking</p>
+                <div className="rounded-lg border bg-background p-3 text-sm whitespace-pre-wrap">
+                    {preview || <span className="text-muted-foreground">Your message will appear here</span>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                    {preview.length} characters
+                    {segmentLength && segments > 1 && ` · sent as ${segments} SMS messages`}
+                </p>
+            </div>
+        </div>
+    );
+}
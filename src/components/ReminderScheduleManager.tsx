@@ -1,29 +1,84 @@
-import { useState, useEffect } from 'react';
-import { apiService, ReminderSchedule, ReminderScheduleRequest } from '../services/api';
+import { useState, useEffect, useMemo } from 'react';
+import { apiService, Provider, ReminderSchedule, ReminderScheduleRequest, FieldErrors, getFieldErrors } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from './ui/alert-dialog';
 import { toast } from 'sonner';
-import { Bell, Plus, Loader2, Calendar, Percent } from 'lucide-react';
+import { Bell, Plus, Loader2, Calendar, Percent, Pencil, Trash2, Pause, Play, Check, X } from 'lucide-react';
 import { Badge } from './ui/badge';
+import { FieldError } from './FieldError';
+import { ReminderMessageEditor } from './ReminderMessageEditor';
+import { cn } from '../lib/utils';
+import { DEFAULT_REMINDER_TEMPLATE, REMINDER_CHANNEL_CONFIG, createSampleAppointment } from '../lib/reminder-template';
+import { formatReminderTiming } from '../lib/reminder-timeline';
+import { ReminderTimelinePreview } from './ReminderTimelinePreview';
 
-export function ReminderScheduleManager() {
+const DEFAULT_VALUE_BY_TYPE: Record<ReminderScheduleRequest['type'], number> = {
+    days_before: 2,
+    percentage: 80,
+};
+
+// Mirrors the reminder service limits so obvious mistakes never leave the form
+const validateReminder = (data: ReminderScheduleRequest): string | null => {
+    if (!data.type || !data.value) {
+        return 'Please fill in all fields';
+    }
+    if (data.type === 'days_before' && (data.value < 1 || data.value > 365)) {
+        return 'Days before must be between 1 and 365';
+    }
+    if (data.type === 'percentage' && (data.value < 1 || data.value > 100)) {
+        return 'Percentage must be between 1 and 100';
+    }
+    if (!data.messageTemplate.trim()) {
+        return 'Please enter a reminder message';
+    }
+    return null;
+};
+
+const EMPTY_REMINDER: ReminderScheduleRequest = {
+    type: 'days_before',
+    value: DEFAULT_VALUE_BY_TYPE.days_before,
+    channel: 'sms',
+    messageTemplate: DEFAULT_REMINDER_TEMPLATE,
+};
+
+interface ReminderScheduleManagerProps {
+    provider?: Provider | null; // Used to make the message preview look like the real thing
+}
+
+export function ReminderScheduleManager({ provider }: ReminderScheduleManagerProps) {
     const { user } = useAuth();
     const [reminders, setReminders] = useState<ReminderSchedule[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
     const [showAddForm, setShowAddForm] = useState(false);
-    const [formData, setFormData] = useState<ReminderScheduleRequest>({
-        type: 'days_before',
-        value: 2,
-    });
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [formData, setFormData] = useState<ReminderScheduleRequest>(EMPTY_REMINDER);
+    const [showInactive, setShowInactive] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editData, setEditData] = useState<ReminderScheduleRequest>(EMPTY_REMINDER);
+    const [editFieldErrors, setEditFieldErrors] = useState<FieldErrors>({});
+    const [updatingId, setUpdatingId] = useState<string | null>(null);
+    const [reminderToDelete, setReminderToDelete] = useState<ReminderSchedule | null>(null);
+    const sampleAppointment = useMemo(() => createSampleAppointment(provider), [provider]);
 
     useEffect(() => {
         loadReminders();
-    }, [user?.providerId]); // eslint-disable-line react-hooks/exhaustive-deps
+    }, [user?.providerId, showInactive]); // eslint-disable-line react-hooks/exhaustive-deps
 
     const loadReminders = async () => {
         setIsLoading(true);
@@ -34,7 +89,7 @@ export function ReminderScheduleManager() {
                 setReminders([]);
                 return;
             }
-            const reminderList = await apiService.listReminderSchedules(providerId, true);
+            const reminderList = await apiService.listReminderSchedules(providerId, !showInactive);
             setReminders(reminderList);
         } catch (error) {
             console.error('Failed to load reminders:', error);
@@ -47,48 +102,105 @@ export function ReminderScheduleManager() {
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
-        // Validation
-        if (!formData.type || !formData.value) {
-            toast.error('Please fill in all fields');
-            return;
-        }
-
-        if (formData.type === 'days_before' && (formData.value < 1 || formData.value > 365)) {
-            toast.error('Days before must be between 1 and 365');
-            return;
-        }
-
-        if (formData.type === 'percentage' && (formData.value < 1 || formData.value > 100)) {
-            toast.error('Percentage must be between 1 and 100');
+        const validationError = validateReminder(formData);
+        if (validationError) {
+            toast.error(validationError);
             return;
         }
 
         setIsSaving(true);
+        setFieldErrors({});
         try {
             await apiService.createReminderSchedule(formData);
             toast.success('Reminder schedule added successfully!');
 
             // Reset form
-            setFormData({
-                type: 'days_before',
-                value: 2,
-            });
+            setFormData(EMPTY_REMINDER);
             setShowAddForm(false);
 
             // Reload reminders
             loadReminders();
         } catch (error) {
+            setFieldErrors(getFieldErrors(error));
             toast.error(error instanceof Error ? error.message : 'Failed to add reminder');
         } finally {
             setIsSaving(false);
         }
     };
 
-    const formatReminder = (reminder: ReminderSchedule) => {
-        if (reminder.type === 'days_before') {
-            return `${reminder.value} day${reminder.value !== 1 ? 's' : ''} before`;
-        } else {
-            return `${reminder.value}% of time before`;
+    const startEditing = (reminder: ReminderSchedule) => {
+        setEditingId(reminder.id);
+        setEditData({
+            type: reminder.type,
+            value: reminder.value,
+            channel: reminder.channel ?? 'sms',
+            messageTemplate: reminder.messageTemplate ?? DEFAULT_REMINDER_TEMPLATE,
+        });
+        setEditFieldErrors({});
+    };
+
+    const cancelEditing = () => {
+        setEditingId(null);
+        setEditFieldErrors({});
+    };
+
+    const handleUpdate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editingId) return;
+
+        const validationError = validateReminder(editData);
+        if (validationError) {
+            toast.error(validationError);
+            return;
+        }
+
+        setUpdatingId(editingId);
+        setEditFieldErrors({});
+        try {
+            const updated = await apiService.updateReminderSchedule(editingId, editData);
+            setReminders(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+            setEditingId(null);
+            toast.success('Reminder schedule updated');
+        } catch (error) {
+            setEditFieldErrors(getFieldErrors(error));
+            toast.error(error instanceof Error ? error.message : 'Failed to update reminder');
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const handleToggleActive = async (reminder: ReminderSchedule) => {
+        const isActive = !reminder.isActive;
+        setUpdatingId(reminder.id);
+        try {
+            const updated = await apiService.setReminderScheduleActive(reminder.id, isActive);
+            setReminders(prev => (
+                isActive || showInactive
+                    ? prev.map(r => (r.id === updated.id ? updated : r))
+                    : prev.filter(r => r.id !== updated.id)
+            ));
+            toast.success(isActive ? 'Reminder resumed' : 'Reminder paused');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update reminder');
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!reminderToDelete) return;
+
+        const { id } = reminderToDelete;
+        setReminderToDelete(null);
+        setUpdatingId(id);
+        try {
+            await apiService.deleteReminderSchedule(id);
+            setReminders(prev => prev.filter(r => r.id !== id));
+            toast.success('Reminder schedule deleted');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to delete reminder');
+        } finally {
+            setUpdatingId(null);
         }
     };
 
@@ -101,6 +213,65 @@ export function ReminderScheduleManager() {
         });
     };
 
+    const renderChannelIcon = (reminder: ReminderSchedule) => {
+        const Icon = REMINDER_CHANNEL_CONFIG[reminder.channel ?? 'sms'].icon;
+        return <Icon className="h-3 w-3" />;
+    };
+
+    const renderEditForm = () => (
+        <form onSubmit={handleUpdate} className="flex flex-1 flex-wrap items-start gap-2">
+            <div className="space-y-1">
+                <Select
+                    value={editData.type}
+                    onValueChange={(value) => setEditData(prev => ({
+                        ...prev,
+                        type: value as ReminderScheduleRequest['type'],
+                        value: DEFAULT_VALUE_BY_TYPE[value as ReminderScheduleRequest['type']],
+                    }))}
+                >
+                    <SelectTrigger className="w-40" aria-label="Reminder type" aria-invalid={!!editFieldErrors.type}>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="days_before">Days Before</SelectItem>
+                        <SelectItem value="percentage">Percentage</SelectItem>
+                    </SelectContent>
+                </Select>
+                <FieldError message={editFieldErrors.type} />
+            </div>
+            <div className="space-y-1">
+                <Input
+                    type="number"
+                    className="w-28"
+                    aria-label={editData.type === 'days_before' ? 'Days before appointment' : 'Percentage of time'}
+                    aria-invalid={!!editFieldErrors.value}
+                    min={1}
+                    max={editData.type === 'days_before' ? 365 : 100}
+                    value={editData.value}
+                    onChange={(e) => setEditData(prev => ({ ...prev, value: parseInt(e.target.value) || 0 }))}
+                    autoFocus
+                />
+                <FieldError message={editFieldErrors.value} />
+            </div>
+            <Button type="submit" size="icon" disabled={updatingId === editingId} title="Save">
+                {updatingId === editingId ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+            </Button>
+            <Button type="button" variant="outline" size="icon" onClick={cancelEditing} disabled={updatingId === editingId} title="Cancel">
+                <X className="h-4 w-4" />
+            </Button>
+            <div className="w-full">
+                <ReminderMessageEditor
+                    idPrefix={`reminder-${editingId}`}
+                    channel={editData.channel}
+                    messageTemplate={editData.messageTemplate}
+                    onChange={(changes) => setEditData(prev => ({ ...prev, ...changes }))}
+                    sampleAppointment={sampleAppointment}
+                    fieldErrors={editFieldErrors}
+                />
+            </div>
+        </form>
+    );
+
     return (
         <Card>
             <CardHeader>
@@ -114,12 +285,18 @@ export function ReminderScheduleManager() {
                             Configure when reminders should be sent to customers before their appointments
                         </CardDescription>
                     </div>
-                    {!showAddForm && (
-                        <Button onClick={() => setShowAddForm(true)} size="sm">
-                            <Plus className="mr-2 h-4 w-4" />
-                            Add Reminder
-                        </Button>
-                    )}
+                    <div className="flex items-center gap-4">
+                        <div className="flex items-center gap-2">
+                            <Switch id="showInactiveReminders" checked={showInactive} onCheckedChange={setShowInactive} />
+                            <Label htmlFor="showInactiveReminders" className="text-sm font-normal">Show paused</Label>
+                        </div>
+                        {!showAddForm && (
+                            <Button onClick={() => setShowAddForm(true)} size="sm">
+                                <Plus className="mr-2 h-4 w-4" />
+                                Add Reminder
+                            </Button>
+                        )}
+                    </div>
                 </div>
             </CardHeader>
             <CardContent>
@@ -132,11 +309,11 @@ export function ReminderScheduleManager() {
                                     value={formData.type}
                                     onValueChange={(value) => setFormData(prev => ({
                                         ...prev,
-                                        type: value as 'days_before' | 'percentage',
-                                        value: value === 'days_before' ? 2 : 80
+                                        type: value as ReminderScheduleRequest['type'],
+                                        value: DEFAULT_VALUE_BY_TYPE[value as ReminderScheduleRequest['type']],
                                     }))}
                                 >
-                                    <SelectTrigger id="reminderType">
+                                    <SelectTrigger id="reminderType" aria-invalid={!!fieldErrors.type}>
                                         <SelectValue placeholder="Select type" />
                                     </SelectTrigger>
                                     <SelectContent>
@@ -154,6 +331,7 @@ export function ReminderScheduleManager() {
                                         </SelectItem>
                                     </SelectContent>
                                 </Select>
+                                <FieldError message={fieldErrors.type} />
                             </div>
 
                             <div className="space-y-2">
@@ -162,6 +340,7 @@ export function ReminderScheduleManager() {
                                 </Label>
                                 <Input
                                     id="reminderValue"
+                                    aria-invalid={!!fieldErrors.value}
                                     type="number"
                                     min={1}
                                     max={formData.type === 'days_before' ? 365 : 100}
@@ -172,6 +351,7 @@ export function ReminderScheduleManager() {
                                     }))}
                                     placeholder={formData.type === 'days_before' ? 'e.g., 2' : 'e.g., 80'}
                                 />
+                                <FieldError message={fieldErrors.value} />
                                 <p className="text-xs text-muted-foreground">
                                     {formData.type === 'days_before'
                                         ? 'Number of days before the appointment (1-365)'
@@ -180,6 +360,15 @@ export function ReminderScheduleManager() {
                             </div>
                         </div>
 
+                        <ReminderMessageEditor
+                            idPrefix="newReminder"
+                            channel={formData.channel}
+                            messageTemplate={formData.messageTemplate}
+                            onChange={(changes) => setFormData(prev => ({ ...prev, ...changes }))}
+                            sampleAppointment={sampleAppointment}
+                            fieldErrors={fieldErrors}
+                        />
+
                         <div className="flex gap-2">
                             <Button type="submit" disabled={isSaving}>
                                 {isSaving ? (
@@ -223,7 +412,10 @@ export function ReminderScheduleManager() {
                         {reminders.map((reminder) => (
                             <div
                                 key={reminder.id}
-                                className="flex items-center justify-between p-4 border rounded-lg hover:bg-accent/50 transition-colors"
+                                className={cn(
+                                    'flex items-center justify-between p-4 border rounded-lg hover:bg-accent/50 transition-colors',
+                                    !reminder.isActive && 'opacity-60'
+                                )}
                             >
                                 <div className="flex items-center gap-4 flex-1">
                                     <div className="flex items-center justify-center w-12 h-12 rounded-full bg-primary/10">
@@ -233,31 +425,99 @@ export function ReminderScheduleManager() {
                                             <Percent className="h-6 w-6 text-primary" />
                                         )}
                                     </div>
-                                    <div className="flex-1">
-                                        <div className="flex items-center gap-2">
-                                            <h4 className="font-semibold">{formatReminder(reminder)}</h4>
-                                            <Badge variant={reminder.type === 'days_before' ? 'default' : 'secondary'}>
-                                                {reminder.type === 'days_before' ? 'Days' : 'Percentage'}
-                                            </Badge>
+                                    {editingId === reminder.id ? renderEditForm() : (
+                                        <div className="flex-1">
+                                            <div className="flex items-center gap-2">
+                                                <h4 className="font-semibold">{formatReminderTiming(reminder)}</h4>
+                                                <Badge variant={reminder.type === 'days_before' ? 'default' : 'secondary'}>
+                                                    {reminder.type === 'days_before' ? 'Days' : 'Percentage'}
+                                                </Badge>
+                                                <Badge variant="outline" className="gap-1">
+                                                    {renderChannelIcon(reminder)}
+                                                    {REMINDER_CHANNEL_CONFIG[reminder.channel ?? 'sms'].label}
+                                                </Badge>
+                                                {!reminder.isActive && <Badge variant="outline">Paused</Badge>}
+                                            </div>
+                                            {reminder.messageTemplate && (
+                                                <p className="text-sm text-muted-foreground line-clamp-1" title={reminder.messageTemplate}>
+                                                    {reminder.messageTemplate}
+                                                </p>
+                                            )}
+                                            <p className="text-sm text-muted-foreground">
+                                                Created on {formatDate(reminder.createdAt)}
+                                            </p>
                                         </div>
-                                        <p className="text-sm text-muted-foreground">
-                                            Created on {formatDate(reminder.createdAt)}
-                                        </p>
-                                    </div>
+                                    )}
                                 </div>
-                                {/* Optional: Add delete button if backend supports it */}
-                                {/* <button
-                  onClick={() => handleDelete(reminder.id)}
-                  className="ml-4 p-2 rounded-md hover:bg-destructive/10 hover:text-destructive transition-colors"
-                  title="Delete reminder"
-                  type="button"
-                >
-                  <Trash2 className="h-5 w-5" />
-                </button> */}
+                                {editingId !== reminder.id && (
+                                    <div className="ml-4 flex items-center gap-1">
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => startEditing(reminder)}
+                                            disabled={updatingId === reminder.id}
+                                            title="Edit reminder"
+                                        >
+                                            <Pencil className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => handleToggleActive(reminder)}
+                                            disabled={updatingId === reminder.id}
+                                            title={reminder.isActive ? 'Pause reminder' : 'Resume reminder'}
+                                        >
+                                            {updatingId === reminder.id ? (
+                                                <Loader2 className="h-4 w-4 animate-spin" />
+                                            ) : reminder.isActive ? (
+                                                <Pause className="h-4 w-4" />
+                                            ) : (
+                                                <Play className="h-4 w-4" />
+                                            )}
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className="hover:bg-destructive/10 hover:text-destructive"
+                                            onClick={() => setReminderToDelete(reminder)}
+                                            disabled={updatingId === reminder.id}
+                                            title="Delete reminder"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                )}
                             </div>
                         ))}
                     </div>
                 )}
+
+                {!isLoading && reminders.some(r => r.isActive) && (
+                    <div className="mt-6">
+                        <ReminderTimelinePreview reminders={reminders} />
+                    </div>
+                )}
+
+                <AlertDialog open={!!reminderToDelete} onOpenChange={(open) => !open && setReminderToDelete(null)}>
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>Delete reminder schedule?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                                {reminderToDelete && `Customers will no longer get the "${formatReminderTiming(reminderToDelete)}" reminder. `}
+                                To stop it temporarily, pause it instead.
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                            <AlertDialogCancel>Keep</AlertDialogCancel>
+                            <AlertDialogAction
+                                onClick={handleDelete}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                                Delete
+                            </AlertDialogAction>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
             </CardContent>
         </Card>
     );
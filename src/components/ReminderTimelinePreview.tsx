@@ -0,0 +1,142 @@
+import { useMemo, useState } from 'react';
+import { addDays, format, setHours, setMinutes, startOfDay } from 'date-fns';
+import { ReminderSchedule } from '../services/api';
+import {
+    REMINDER_COLLISION_WINDOW_MINUTES,
+    computeReminderTimeline,
+    formatReminderTiming,
+} from '../lib/reminder-timeline';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { AlertTriangle, CalendarCheck, CalendarPlus } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+interface ReminderTimelinePreviewProps {
+    reminders: ReminderSchedule[];
+}
+
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+export function ReminderTimelinePreview({ reminders }: ReminderTimelinePreviewProps) {
+    // Example booking: made now for an appointment a week out at 10:00
+    const [bookedAtInput, setBookedAtInput] = useState(() => format(new Date(), INPUT_FORMAT));
+    const [appointmentAtInput, setAppointmentAtInput] = useState(() =>
+        format(setMinutes(setHours(addDays(startOfDay(new Date()), 7), 10), 0), INPUT_FORMAT)
+    );
+
+    // Parsed once per input change so the timeline below only recomputes when an input or reminder changes
+    const bookedAt = useMemo(() => new Date(bookedAtInput), [bookedAtInput]);
+    const appointmentAt = useMemo(() => new Date(appointmentAtInput), [appointmentAtInput]);
+    const isValidRange = !isNaN(bookedAt.getTime()) && !isNaN(appointmentAt.getTime()) && bookedAt < appointmentAt;
+
+    const timeline = useMemo(
+        () => (isValidRange ? computeReminderTimeline(reminders.filter(r => r.isActive), bookedAt, appointmentAt) : []),
+        [reminders, isValidRange, bookedAt, appointmentAt]
+    );
+
+    // Stretch the axis back far enough to show reminders that land before the booking
+    const axisStart = Math.min(bookedAt.getTime(), ...timeline.map(entry => entry.firesAt.getTime()));
+    const axisSpan = appointmentAt.getTime() - axisStart;
+    const toPercent = (time: number) => ((time - axisStart) / axisSpan) * 100;
+
+    const formatMoment = (date: Date) => format(date, 'MMM d, h:mm a');
+
+    return (
+        <div className="space-y-4 p-4 border rounded-lg">
+            <div>
+                <h4 className="font-semibold">Timeline preview</h4>
+                <p className="text-sm text-muted-foreground">
+                    See exactly when each active reminder would go out for an example booking.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <Label htmlFor="timelineBookedAt">Booked on</Label>
+                    <Input
+                        id="timelineBookedAt"
+                        type="datetime-local"
+                        value={bookedAtInput}
+                        onChange={(e) => setBookedAtInput(e.target.value)}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="timelineAppointmentAt">Appointment on</Label>
+                    <Input
+                        id="timelineAppointmentAt"
+                        type="datetime-local"
+                        value={appointmentAtInput}
+                        min={bookedAtInput}
+                        onChange={(e) => setAppointmentAtInput(e.target.value)}
+                    />
+                </div>
+            </div>
+
+            {!isValidRange ? (
+                <p className="text-sm text-destructive">The appointment must come after the booking.</p>
+            ) : timeline.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No active reminders to preview.</p>
+            ) : (
+                <>
+                    <div className="relative mx-3 h-16">
+                        <div className="absolute inset-x-0 top-8 h-1 rounded-full bg-muted" />
+                        <div
+                            className="absolute top-8 h-1 rounded-full bg-primary/30"
+                            style={{ left: `${toPercent(bookedAt.getTime())}%`, right: 0 }}
+                        />
+                        <div
+                            className="absolute top-5 -translate-x-1/2 text-muted-foreground"
+                            style={{ left: `${toPercent(bookedAt.getTime())}%` }}
+                            title={`Booked ${formatMoment(bookedAt)}`}
+                        >
+                            <CalendarPlus className="h-4 w-4" />
+                        </div>
+                        <div className="absolute top-5 right-0 translate-x-1/2 text-primary" title={`Appointment ${formatMoment(appointmentAt)}`}>
+                            <CalendarCheck className="h-4 w-4" />
+                        </div>
+                        {timeline.map((entry) => (
+                            <div
+                                key={entry.reminder.id}
+                                className={cn(
+                                    'absolute top-6 h-5 w-5 -translate-x-1/2 rounded-full border-2 border-background',
+                                    entry.isPast ? 'bg-destructive' : entry.collidesWith.length > 0 ? 'bg-amber-500' : 'bg-primary'
+                                )}
+                                style={{ left: `${toPercent(entry.firesAt.getTime())}%` }}
+                                title={`${formatReminderTiming(entry.reminder)}: ${formatMoment(entry.firesAt)}`}
+                            />
+                        ))}
+                    </div>
+
+                    <ul className="space-y-2">
+                        {timeline.map((entry) => (
+                            <li key={entry.reminder.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                                <span className="font-medium">{formatReminderTiming(entry.reminder)}</span>
+                                <div className="flex items-center gap-2">
+                                    <span className={cn(entry.isPast && 'line-through text-muted-foreground')}>
+                                        {formatMoment(entry.firesAt)}
+                                    </span>
+                                    {entry.isPast && (
+                                        <Badge variant="destructive" className="gap-1">
+                                            <AlertTriangle className="h-3 w-3" />
+                                            Before booking, not sent
+                                        </Badge>
+                                    )}
+                                    {entry.collidesWith.length > 0 && (
+                                        <Badge
+                                            className="gap-1 bg-amber-100 text-amber-700 hover:bg-amber-100 dark:bg-amber-900/20 dark:text-amber-400"
+                                            title={`Within ${REMINDER_COLLISION_WINDOW_MINUTES} minutes of another reminder`}
+                                        >
+                                            <AlertTriangle className="h-3 w-3" />
+                                            Collides with {entry.collidesWith.length} other{entry.collidesWith.length !== 1 ? 's' : ''}
+                                        </Badge>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { apiService, Appointment, AvailableDate, TimeSlot } from '../services/api';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { AvailabilityCalendar } from './AvailabilityCalendar';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { toast } from 'sonner';
+import { CalendarClock, Loader2, ArrowRight } from 'lucide-react';
+
+interface RescheduleAppointmentDialogProps {
+    appointment: Appointment;
+    onRescheduled: (appointment: Appointment) => void;
+    disabled?: boolean;
+}
+
+export function RescheduleAppointmentDialog({ appointment, onRescheduled, disabled = false }: RescheduleAppointmentDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [availableDates, setAvailableDates] = useState<AvailableDate[]>([]);
+    const [bookingLimitDays, setBookingLimitDays] = useState(30);
+    const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+    const [selectedDate, setSelectedDate] = useState('');
+    const [selectedTimeSlot, setSelectedTimeSlot] = useState('');
+    const [isLoadingDates, setIsLoadingDates] = useState(false);
+    const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadAvailableDates = async () => {
+        setIsLoadingDates(true);
+        setAvailableDates([]);
+        try {
+            // The appointment only embeds a provider summary, so the booking window comes from the profile
+            const profile = await apiService.getProviderProfile(appointment.providerId);
+            const days = profile?.bookingLimitDays || 30;
+            const dates = await apiService.getAvailableDates({
+                providerId: appointment.providerId,
+                days,
+            });
+            setBookingLimitDays(days);
+            // Keep unavailable dates too so the calendar can explain why they are closed
+            setAvailableDates(dates);
+        } catch (error) {
+            toast.error('Failed to load available dates');
+            console.error('Error loading dates:', error);
+        } finally {
+            setIsLoadingDates(false);
+        }
+    };
+
+    const loadTimeSlots = async (date: string) => {
+        setIsLoadingSlots(true);
+        setTimeSlots([]);
+        setSelectedTimeSlot('');
+        try {
+            const slots = await apiService.getAvailableSlots({
+                providerId: appointment.providerId,
+                date,
+            });
+            // The current slot is the origin, not a destination
+            setTimeSlots(slots.filter(s => s.isAvailable && s.startTime !== appointment.startTime));
+        } catch (error) {
+            toast.error('Failed to load time slots');
+            console.error('Error loading slots:', error);
+        } finally {
+            setIsLoadingSlots(false);
+        }
+    };
+
+    const handleOpenChange = (value: boolean) => {
+        setOpen(value);
+        if (value) {
+            loadAvailableDates();
+        } else {
+            setSelectedDate('');
+            setSelectedTimeSlot('');
+            setTimeSlots([]);
+        }
+    };
+
+    const handleDateChange = (value: string) => {
+        setSelectedDate(value);
+        loadTimeSlots(value);
+    };
+
+    const handleSubmit = async () => {
+        if (!selectedDate || !selectedTimeSlot) {
+            toast.error('Please choose a new date and time');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const updated = await apiService.rescheduleAppointment({
+                appointmentId: appointment.id,
+                appointmentDate: selectedDate,
+                startTime: formatTimeTo24Hour(selectedTimeSlot),
+            });
+            toast.success(`Appointment moved to ${formatDate(selectedDate)} at ${formatTime(selectedTimeSlot)}`);
+            onRescheduled(updated);
+            handleOpenChange(false);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to reschedule appointment';
+            toast.error(errorMessage);
+            if (errorMessage.includes('already booked')) {
+                loadTimeSlots(selectedDate);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const formatDate = (dateString: string) => {
+        const date = new Date(dateString);
+        return date.toLocaleDateString('en-US', {
+            weekday: 'short',
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric'
+        });
+    };
+
+    const formatTime = (isoString: string) => {
+        const date = new Date(isoString);
+        return date.toLocaleTimeString('en-US', {
+            hour: '2-digit',
+            minute: '2-digit',
+            hour12: true
+        });
+    };
+
+    const formatTimeTo24Hour = (isoString: string) => {
+        const date = new Date(isoString);
+        return date.toTimeString().slice(0, 5); // HH:mm format
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm" disabled={disabled}>
+                    <CalendarClock className="mr-2 h-4 w-4" />
+                    Reschedule
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <CalendarClock className="h-5 w-5" />
+                        Reschedule Appointment
+                    </DialogTitle>
+                    <DialogDescription>
+                        Pick a new slot with {appointment.provider?.businessName || 'the same provider'}. The booking keeps its history.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="p-3 border rounded-lg bg-accent/50 text-sm">
+                        <p className="text-xs font-medium text-muted-foreground mb-1">Current slot</p>
+                        <p className="font-medium">
+                            {formatDate(appointment.appointmentDate)}, {formatTime(appointment.startTime)} - {formatTime(appointment.endTime)}
+                        </p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>New Date *</Label>
+                        {isLoadingDates ? (
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                                Loading dates...
+                            </div>
+                        ) : availableDates.some(d => d.isAvailable) ? (
+                            <AvailabilityCalendar
+                                dates={availableDates}
+                                selectedDate={selectedDate}
+                                onSelect={handleDateChange}
+                                bookingLimitDays={bookingLimitDays}
+                                disabled={isSaving}
+                            />
+                        ) : (
+                            <p className="text-sm text-muted-foreground py-4">No dates available</p>
+                        )}
+                    </div>
+
+                    {selectedDate && (
+                        <div className="space-y-2">
+                            <Label htmlFor={`reschedule-slot-${appointment.id}`}>New Time *</Label>
+                            <Select
+                                value={selectedTimeSlot}
+                                onValueChange={setSelectedTimeSlot}
+                                disabled={isLoadingSlots || timeSlots.length === 0}
+                            >
+                                <SelectTrigger id={`reschedule-slot-${appointment.id}`}>
+                                    <SelectValue placeholder={
+                                        isLoadingSlots
+                                            ? 'Loading time slots...'
+                                            : timeSlots.length === 0
+                                                ? 'No time slots available'
+                                                : 'Choose a time slot'
+                                    } />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {timeSlots.map((slot) => (
+                                        <SelectItem key={slot.startTime} value={slot.startTime}>
+                                            {formatTime(slot.startTime)} - {formatTime(slot.endTime)}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    {selectedDate && selectedTimeSlot && (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <span>{formatTime(appointment.startTime)}</span>
+                            <ArrowRight className="h-4 w-4" />
+                            <span className="font-medium text-foreground">
+                                {formatDate(selectedDate)}, {formatTime(selectedTimeSlot)}
+                            </span>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-2">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => handleOpenChange(false)}
+                        disabled={isSaving}
+                    >
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={isSaving || !selectedDate || !selectedTimeSlot}>
+                        {isSaving ? (
+                            <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                Rescheduling...
+                            </>
+                        ) : (
+                            'Confirm New Time'
+                        )}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,76 @@
+import { format } from 'date-fns';
+import { TimeBlock, toMinutes } from '../lib/schedule-time';
+import { cn } from '../lib/utils';
+
+interface ScheduleDayTimelineProps {
+    existing: TimeBlock[]; // Already saved for this day
+    drafts: TimeBlock[]; // Being added or edited
+    errors?: (string | null)[]; // Indexed like drafts
+}
+
+const DEFAULT_START_HOUR = 6;
+const DEFAULT_END_HOUR = 22;
+
+export function ScheduleDayTimeline({ existing, drafts, errors = [] }: ScheduleDayTimelineProps) {
+    const complete = (block: TimeBlock) => !!block.startTime && !!block.endTime;
+
+    // Fit the axis to whole hours around every block, with a sensible working day as the minimum
+    let startHour = DEFAULT_START_HOUR;
+    let endHour = DEFAULT_END_HOUR;
+    [...existing, ...drafts].filter(complete).forEach((block) => {
+        startHour = Math.min(startHour, Math.floor(toMinutes(block.startTime) / 60));
+        endHour = Math.max(endHour, Math.ceil(toMinutes(block.endTime) / 60));
+    });
+    endHour = Math.min(endHour, 24);
+
+    const span = (endHour - startHour) * 60;
+    const toPercent = (minutes: number) => ((minutes - startHour * 60) / span) * 100;
+    const hours = Array.from({ length: endHour - startHour + 1 }, (_, i) => startHour + i);
+
+    const renderBlock = (block: TimeBlock, className: string, key: string, title: string) => {
+        const start = toMinutes(block.startTime);
+        const end = toMinutes(block.endTime);
+        // Inverted blocks are drawn as a thin marker so they are still visible
+        const width = Math.max(toPercent(end) - toPercent(start), 0.75);
+        return (
+            <div
+                key={key}
+                className={cn('absolute top-1 bottom-1 rounded', className)}
+                style={{ left: `${toPercent(Math.min(start, end))}%`, width: `${width}%` }}
+                title={title}
+            />
+        );
+    };
+
+    const formatMinutes = (minutes: number) => format(new Date(2000, 0, 1, 0, minutes), 'h:mm a');
+    const describe = (block: TimeBlock) => `${formatMinutes(toMinutes(block.startTime))} - ${formatMinutes(toMinutes(block.endTime))}`;
+
+    return (
+        <div className="space-y-1">
+            <div className="relative h-8 rounded-md border bg-muted/50">
+                {existing.filter(complete).map((block, index) =>
+                    renderBlock(block, 'bg-muted-foreground/30', `existing-${index}`, `Saved: ${describe(block)}`)
+                )}
+                {drafts.map((block, index) =>
+                    complete(block) && renderBlock(
+                        block,
+                        errors[index] ? 'bg-destructive/70' : 'bg-primary/70',
+                        `draft-${index}`,
+                        errors[index] ? `${describe(block)}: ${errors[index]}` : describe(block)
+                    )
+                )}
+            </div>
+            <div className="relative h-4 text-[10px] text-muted-foreground">
+                {hours.filter(hour => (hour - startHour) % 2 === 0).map((hour) => (
+                    <span
+                        key={hour}
+                        className="absolute -translate-x-1/2"
+                        style={{ left: `${toPercent(hour * 60)}%` }}
+                    >
+                        {format(new Date(2000, 0, 1, hour), 'ha')}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { apiService, Appointment, FieldErrors, ScheduleConfig, getFieldErrors } from '../services/api';
+import { isTerminalStatus } from '../lib/appointment-status';
+import { TimeBlock, toMinutes, toTimeInputValue, validateTimeBlocks } from '../lib/schedule-time';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+import { FieldError } from './FieldError';
+import { ScheduleDayTimeline } from './ScheduleDayTimeline';
+import { toast } from 'sonner';
+import { AlertTriangle, Check, Loader2 } from 'lucide-react';
+
+interface ScheduleEditFormProps {
+    schedule: ScheduleConfig;
+    providerId: string;
+    otherBlocks: TimeBlock[]; // The day's other working blocks, which the new hours must not overlap
+    onSaved: (schedule: ScheduleConfig) => void;
+    onCancel: () => void;
+}
+
+// The list can't filter by weekday, so the conflict check pages through every upcoming booking
+const UPCOMING_APPOINTMENTS_PAGE_SIZE = 100;
+
+export function ScheduleEditForm({ schedule, providerId, otherBlocks, onSaved, onCancel }: ScheduleEditFormProps) {
+    const [formData, setFormData] = useState({
+        startTime: toTimeInputValue(schedule.startTime),
+        endTime: toTimeInputValue(schedule.endTime),
+        slotMetric: schedule.slotMetric,
+        isCount: schedule.isCount,
+    });
+    const [upcomingAppointments, setUpcomingAppointments] = useState<Appointment[]>([]);
+    const [isLoadingAppointments, setIsLoadingAppointments] = useState(true);
+    const [appointmentsError, setAppointmentsError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+    const [blockError] = validateTimeBlocks([formData], otherBlocks);
+
+    useEffect(() => {
+        let isStale = false;
+        const loadUpcomingAppointments = async () => {
+            setIsLoadingAppointments(true);
+            setAppointmentsError(null);
+            try {
+                const items: Appointment[] = [];
+                let page = 1;
+                let totalPages = 1;
+                do {
+                    const result = await apiService.getProviderAppointments({
+                        fromDate: format(new Date(), 'yyyy-MM-dd'),
+                        page,
+                        pageSize: UPCOMING_APPOINTMENTS_PAGE_SIZE,
+                    });
+                    // Only this block's weekday can be displaced
+                    items.push(...result.items.filter(a => new Date(a.startTime).getDay() === schedule.dayOfWeek));
+                    totalPages = result.totalPages;
+                    page++;
+                } while (page <= totalPages && !isStale);
+                if (!isStale) setUpcomingAppointments(items);
+            } catch (error) {
+                if (!isStale) {
+                    console.error('Failed to load upcoming appointments:', error);
+                    setAppointmentsError(error instanceof Error ? error.message : 'Failed to load appointments');
+                    setUpcomingAppointments([]);
+                }
+            } finally {
+                if (!isStale) setIsLoadingAppointments(false);
+            }
+        };
+        loadUpcomingAppointments();
+
+        return () => {
+            isStale = true;
+        };
+    }, [schedule.id, schedule.dayOfWeek]);
+
+    // Bookings this block currently covers that the new hours would leave out
+    const displacedAppointments = useMemo(() => {
+        const oldStart = toMinutes(schedule.startTime);
+        const oldEnd = toMinutes(schedule.endTime);
+        const newStart = toMinutes(formData.startTime);
+        const newEnd = toMinutes(formData.endTime);
+
+        return upcomingAppointments.filter((appointment) => {
+            if (isTerminalStatus(appointment.status) || new Date(appointment.startTime) < new Date()) {
+                return false;
+            }
+            const start = toMinutes(appointment.startTime);
+            const end = toMinutes(appointment.endTime);
+            const wasInside = start >= oldStart && end <= oldEnd;
+            const isInside = start >= newStart && end <= newEnd;
+            return wasInside && !isInside;
+        });
+    }, [upcomingAppointments, schedule, formData.startTime, formData.endTime]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!formData.startTime || !formData.endTime) {
+            toast.error('Please fill in all required fields');
+            return;
+        }
+
+        if (blockError) {
+            toast.error(blockError);
+            return;
+        }
+
+        if (!formData.slotMetric || formData.slotMetric <= 0) {
+            toast.error('Slot metric must be greater than 0');
+            return;
+        }
+
+        setIsSaving(true);
+        setFieldErrors({});
+        try {
+            const updated = await apiService.updateScheduleConfig(providerId, schedule.id, {
+                dayOfWeek: schedule.dayOfWeek,
+                ...formData,
+            });
+            toast.success('Schedule updated successfully');
+            onSaved(updated);
+        } catch (error) {
+            setFieldErrors(getFieldErrors(error));
+            toast.error(error instanceof Error ? error.message : 'Failed to update schedule');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const idPrefix = `schedule-${schedule.id}`;
+
+    return (
+        <form onSubmit={handleSubmit} className="flex-1 space-y-4">
+            <RadioGroup
+                value={formData.isCount ? 'count' : 'time'}
+                onValueChange={(value) => setFormData(prev => ({
+                    ...prev,
+                    isCount: value === 'count',
+                    slotMetric: value === 'count' ? 50 : 30,
+                }))}
+                className="flex gap-4"
+            >
+                <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="time" id={`${idPrefix}-time`} />
+                    <Label htmlFor={`${idPrefix}-time`} className="cursor-pointer font-normal">Time-Divided</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="count" id={`${idPrefix}-count`} />
+                    <Label htmlFor={`${idPrefix}-count`} className="cursor-pointer font-normal">Count-Based</Label>
+                </div>
+            </RadioGroup>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                    <Label htmlFor={`${idPrefix}-start`}>Start Time *</Label>
+                    <Input
+                        id={`${idPrefix}-start`}
+                        aria-invalid={!!fieldErrors.startTime}
+                        type="time"
+                        value={formData.startTime}
+                        onChange={(e) => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
+                    />
+                    <FieldError message={fieldErrors.startTime} />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor={`${idPrefix}-end`}>End Time *</Label>
+                    <Input
+                        id={`${idPrefix}-end`}
+                        aria-invalid={!!fieldErrors.endTime}
+                        type="time"
+                        value={formData.endTime}
+                        onChange={(e) => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
+                    />
+                    <FieldError message={fieldErrors.endTime} />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor={`${idPrefix}-metric`}>
+                        {formData.isCount ? 'Max Customers' : 'Minutes per Slot'} *
+                    </Label>
+                    <Input
+                        id={`${idPrefix}-metric`}
+                        aria-invalid={!!fieldErrors.slotMetric}
+                        type="number"
+                        min="1"
+                        value={formData.slotMetric}
+                        onChange={(e) => setFormData(prev => ({ ...prev, slotMetric: parseInt(e.target.value) }))}
+                    />
+                    <FieldError message={fieldErrors.slotMetric} />
+                </div>
+            </div>
+
+            <div className="space-y-1">
+                <ScheduleDayTimeline existing={otherBlocks} drafts={[formData]} errors={[blockError]} />
+                <FieldError message={blockError ?? undefined} />
+            </div>
+
+            {isLoadingAppointments ? (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Checking booked appointments...
+                </p>
+            ) : appointmentsError ? (
+                <Alert className="border-amber-500/50 text-amber-700 dark:text-amber-400 [&>svg]:text-amber-600">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Could not check booked appointments</AlertTitle>
+                    <AlertDescription>
+                        {appointmentsError}. Bookings outside the new hours will not be flagged before you save.
+                    </AlertDescription>
+                </Alert>
+            ) : displacedAppointments.length > 0 && (
+                <Alert className="border-amber-500/50 text-amber-700 dark:text-amber-400 [&>svg]:text-amber-600">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>
+                        {displacedAppointments.length} booked appointment{displacedAppointments.length !== 1 ? 's' : ''} would fall outside the new hours
+                    </AlertTitle>
+                    <AlertDescription>
+                        <ul className="mt-2 space-y-1">
+                            {displacedAppointments.map((appointment) => (
+                                <li key={appointment.id}>
+                                    {format(new Date(appointment.startTime), 'EEE, MMM d, h:mm a')} -{' '}
+                                    {appointment.customer?.user?.firstName} {appointment.customer?.user?.lastName}
+                                </li>
+                            ))}
+                        </ul>
+                        <p className="mt-2">They stay booked; reschedule or cancel them if needed.</p>
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            <div className="flex gap-2">
+                <Button type="submit" disabled={isSaving}>
+                    {isSaving ? (
+                        <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Saving...
+                        </>
+                    ) : (
+                        <>
+                            <Check className="mr-2 h-4 w-4" />
+                            {displacedAppointments.length > 0 ? 'Save Anyway' : 'Save Changes'}
+                        </>
+                    )}
+                </Button>
+                <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+                    Cancel
+                </Button>
+            </div>
+        </form>
+    );
+}
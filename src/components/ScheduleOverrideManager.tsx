@@ -0,0 +1,370 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { apiService, FieldErrors, ScheduleOverride, ScheduleOverrideRequest, ScheduleOverrideType, getFieldErrors } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { toMinutes } from '../lib/schedule-time';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from './ui/alert-dialog';
+import { FieldError } from './FieldError';
+import { toast } from 'sonner';
+import { CalendarOff, CalendarPlus, Loader2, Plus, Trash2 } from 'lucide-react';
+
+const EMPTY_OVERRIDE: ScheduleOverrideRequest = {
+    type: 'closed',
+    startDate: '',
+    endDate: '',
+    startTime: '10:00',
+    endTime: '14:00',
+    slotMetric: 30,
+    isCount: false,
+    reason: '',
+};
+
+export function ScheduleOverrideManager() {
+    const { user } = useAuth();
+    const [overrides, setOverrides] = useState<ScheduleOverride[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [showAddForm, setShowAddForm] = useState(false);
+    const [formData, setFormData] = useState<ScheduleOverrideRequest>(EMPTY_OVERRIDE);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [overrideToDelete, setOverrideToDelete] = useState<ScheduleOverride | null>(null);
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    useEffect(() => {
+        loadOverrides();
+    }, [user?.providerId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const loadOverrides = async () => {
+        setIsLoading(true);
+        try {
+            const providerId = user?.providerId;
+            if (!providerId) {
+                setOverrides([]);
+                return;
+            }
+            const list = await apiService.listScheduleOverrides(providerId, today);
+            setOverrides(list.sort((a, b) => a.startDate.localeCompare(b.startDate)));
+        } catch (error) {
+            console.error('Failed to load date overrides:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to load date overrides');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const endDate = formData.endDate || formData.startDate;
+        if (!formData.startDate) {
+            toast.error('Please choose a date');
+            return;
+        }
+        if (endDate < formData.startDate) {
+            toast.error('End date must be on or after the start date');
+            return;
+        }
+
+        const isExtraHours = formData.type === 'extra_hours';
+        if (isExtraHours) {
+            if (!formData.startTime || !formData.endTime || toMinutes(formData.endTime) <= toMinutes(formData.startTime)) {
+                toast.error('End time must be after start time');
+                return;
+            }
+            if (!formData.slotMetric || formData.slotMetric <= 0) {
+                toast.error('Slot metric must be greater than 0');
+                return;
+            }
+        }
+
+        setIsSaving(true);
+        setFieldErrors({});
+        try {
+            await apiService.createScheduleOverride({
+                type: formData.type,
+                startDate: formData.startDate,
+                endDate,
+                reason: formData.reason?.trim() || undefined,
+                ...(isExtraHours ? {
+                    startTime: formData.startTime,
+                    endTime: formData.endTime,
+                    slotMetric: formData.slotMetric,
+                    isCount: formData.isCount,
+                } : {}),
+            });
+            toast.success(isExtraHours ? 'Extra hours added' : 'Dates blocked');
+            setFormData(EMPTY_OVERRIDE);
+            setShowAddForm(false);
+            loadOverrides();
+        } catch (error) {
+            setFieldErrors(getFieldErrors(error));
+            toast.error(error instanceof Error ? error.message : 'Failed to save date override');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!overrideToDelete || !user?.providerId) return;
+
+        const { id } = overrideToDelete;
+        setOverrideToDelete(null);
+        try {
+            await apiService.deleteScheduleOverride(user.providerId, id);
+            setOverrides(prev => prev.filter(o => o.id !== id));
+            toast.success('Date override removed');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to remove date override');
+        }
+    };
+
+    const formatRange = (override: ScheduleOverride) => {
+        const start = format(parseISO(override.startDate), 'EEE, MMM d, yyyy');
+        if (override.endDate === override.startDate) {
+            return start;
+        }
+        return `${start} - ${format(parseISO(override.endDate), 'EEE, MMM d, yyyy')}`;
+    };
+
+    const formatHours = (override: ScheduleOverride) => {
+        if (!override.startTime || !override.endTime) return '';
+        const toLabel = (time: string) => format(new Date(2000, 0, 1, 0, toMinutes(time)), 'h:mm a');
+        return `${toLabel(override.startTime)} - ${toLabel(override.endTime)}`;
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex justify-between items-center">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <CalendarOff className="h-5 w-5" />
+                            Time Off & Special Hours
+                        </CardTitle>
+                        <CardDescription>
+                            Close specific dates or open extra hours outside your weekly schedule
+                        </CardDescription>
+                    </div>
+                    {!showAddForm && (
+                        <Button onClick={() => setShowAddForm(true)} size="sm">
+                            <Plus className="mr-2 h-4 w-4" />
+                            Add Exception
+                        </Button>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent>
+                {showAddForm && (
+                    <form onSubmit={handleSubmit} className="space-y-4 mb-6 p-4 border rounded-lg bg-accent/50">
+                        <RadioGroup
+                            value={formData.type}
+                            onValueChange={(value) => setFormData(prev => ({ ...prev, type: value as ScheduleOverrideType }))}
+                            className="flex gap-6"
+                        >
+                            <div className="flex items-center space-x-2">
+                                <RadioGroupItem value="closed" id="overrideClosed" />
+                                <Label htmlFor="overrideClosed" className="cursor-pointer font-normal">Closed (holiday, time off)</Label>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                                <RadioGroupItem value="extra_hours" id="overrideExtra" />
+                                <Label htmlFor="overrideExtra" className="cursor-pointer font-normal">Extra hours</Label>
+                            </div>
+                        </RadioGroup>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="overrideStartDate">{formData.type === 'closed' ? 'From' : 'Date'} *</Label>
+                                <Input
+                                    id="overrideStartDate"
+                                    type="date"
+                                    aria-invalid={!!fieldErrors.startDate}
+                                    min={today}
+                                    value={formData.startDate}
+                                    onChange={(e) => setFormData(prev => ({ ...prev, startDate: e.target.value }))}
+                                />
+                                <FieldError message={fieldErrors.startDate} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="overrideEndDate">Until</Label>
+                                <Input
+                                    id="overrideEndDate"
+                                    type="date"
+                                    aria-invalid={!!fieldErrors.endDate}
+                                    min={formData.startDate || today}
+                                    value={formData.endDate}
+                                    onChange={(e) => setFormData(prev => ({ ...prev, endDate: e.target.value }))}
+                                />
+                                <FieldError message={fieldErrors.endDate} />
+                                <p className="text-xs text-muted-foreground">Leave empty for a single day</p>
+                            </div>
+                        </div>
+
+                        {formData.type === 'extra_hours' && (
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="overrideStartTime">Start Time *</Label>
+                                    <Input
+                                        id="overrideStartTime"
+                                        type="time"
+                                        aria-invalid={!!fieldErrors.startTime}
+                                        value={formData.startTime}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
+                                    />
+                                    <FieldError message={fieldErrors.startTime} />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="overrideEndTime">End Time *</Label>
+                                    <Input
+                                        id="overrideEndTime"
+                                        type="time"
+                                        aria-invalid={!!fieldErrors.endTime}
+                                        value={formData.endTime}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
+                                    />
+                                    <FieldError message={fieldErrors.endTime} />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="overrideSlotMetric">
+                                        {formData.isCount ? 'Max Customers' : 'Minutes per Slot'} *
+                                    </Label>
+                                    <Input
+                                        id="overrideSlotMetric"
+                                        type="number"
+                                        min="1"
+                                        aria-invalid={!!fieldErrors.slotMetric}
+                                        value={formData.slotMetric}
+                                        onChange={(e) => setFormData(prev => ({ ...prev, slotMetric: parseInt(e.target.value) }))}
+                                    />
+                                    <FieldError message={fieldErrors.slotMetric} />
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            <Label htmlFor="overrideReason">Reason shown to customers</Label>
+                            <Input
+                                id="overrideReason"
+                                aria-invalid={!!fieldErrors.reason}
+                                placeholder={formData.type === 'closed' ? 'e.g., Public holiday' : 'e.g., Special Saturday opening'}
+                                value={formData.reason}
+                                onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+                            />
+                            <FieldError message={fieldErrors.reason} />
+                        </div>
+
+                        <div className="flex gap-2">
+                            <Button type="submit" disabled={isSaving}>
+                                {isSaving ? (
+                                    <>
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        Saving...
+                                    </>
+                                ) : (
+                                    <>
+                                        <Plus className="mr-2 h-4 w-4" />
+                                        Add Exception
+                                    </>
+                                )}
+                            </Button>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() => setShowAddForm(false)}
+                                disabled={isSaving}
+                            >
+                                Cancel
+                            </Button>
+                        </div>
+                    </form>
+                )}
+
+                {isLoading ? (
+                    <div className="text-center py-8">
+                        <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                        <p className="mt-2 text-sm text-muted-foreground">Loading exceptions...</p>
+                    </div>
+                ) : overrides.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                        <p className="font-medium">No upcoming exceptions</p>
+                        <p className="text-sm">Your weekly schedule applies to every date</p>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {overrides.map((override) => (
+                            <div
+                                key={override.id}
+                                className="flex items-center justify-between p-4 border rounded-lg hover:bg-accent/50 transition-colors"
+                            >
+                                <div className="flex items-center gap-4 flex-1">
+                                    <div className="flex items-center justify-center w-12 h-12 rounded-full bg-primary/10">
+                                        {override.type === 'closed' ? (
+                                            <CalendarOff className="h-6 w-6 text-primary" />
+                                        ) : (
+                                            <CalendarPlus className="h-6 w-6 text-primary" />
+                                        )}
+                                    </div>
+                                    <div className="flex-1">
+                                        <div className="flex items-center gap-2">
+                                            <h4 className="font-semibold">{formatRange(override)}</h4>
+                                            <Badge variant={override.type === 'closed' ? 'destructive' : 'secondary'}>
+                                                {override.type === 'closed' ? 'Closed' : 'Extra hours'}
+                                            </Badge>
+                                        </div>
+                                        <p className="text-sm text-muted-foreground">
+                                            {[formatHours(override), override.reason].filter(Boolean).join(' · ') || 'No reason given'}
+                                        </p>
+                                    </div>
+                                </div>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="ml-4 hover:bg-destructive/10 hover:text-destructive"
+                                    onClick={() => setOverrideToDelete(override)}
+                                    title="Remove exception"
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <AlertDialog open={!!overrideToDelete} onOpenChange={(open) => !open && setOverrideToDelete(null)}>
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>Remove this exception?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                                {overrideToDelete && `${formatRange(overrideToDelete)} will follow your weekly schedule again.`}
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                            <AlertDialogCancel>Keep</AlertDialogCancel>
+                            <AlertDialogAction
+                                onClick={handleDelete}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                                Remove
+                            </AlertDialogAction>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { apiService, TimeSlot } from '../services/api';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Progress } from './ui/progress';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { toast } from 'sonner';
+import { BarChart3, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+interface SlotCapacityDashboardProps {
+    providerId: string;
+}
+
+// Slots filled below this share are flagged so providers can rethink those hours
+const UNDER_USED_THRESHOLD = 0.25;
+
+interface SlotUsage {
+    slot: TimeSlot;
+    capacity: number;
+    booked: number;
+    utilization: number; // 0-1
+    isCountBased: boolean;
+    isFull: boolean;
+    isUnderUsed: boolean;
+}
+
+// Time-divided slots carry no counts: they hold one booking and are full once taken.
+// An open one is simply free, so only count-based slots can be under-used
+const toUsage = (slot: TimeSlot): SlotUsage => {
+    const isCountBased = slot.capacity !== undefined || slot.remainingSlots !== undefined;
+    const capacity = slot.capacity ?? 1;
+    const booked = slot.bookedCount ?? (slot.remainingSlots !== undefined ? capacity - slot.remainingSlots : slot.isAvailable ? 0 : 1);
+    const utilization = capacity > 0 ? Math.min(booked / capacity, 1) : 0;
+    return {
+        slot,
+        capacity,
+        booked,
+        utilization,
+        isCountBased,
+        isFull: booked >= capacity,
+        isUnderUsed: isCountBased && utilization < UNDER_USED_THRESHOLD,
+    };
+};
+
+export function SlotCapacityDashboard({ providerId }: SlotCapacityDashboardProps) {
+    const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+    const [slots, setSlots] = useState<TimeSlot[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    // Responses for a day the provider already stepped away from are dropped
+    useEffect(() => {
+        setSlots([]);
+        if (!date) {
+            setIsLoading(false);
+            return;
+        }
+
+        let isStale = false;
+        const loadSlots = async () => {
+            setIsLoading(true);
+            try {
+                const list = await apiService.getAvailableSlots({ providerId, date });
+                if (!isStale) setSlots(list);
+            } catch (error) {
+                if (!isStale) {
+                    console.error('Failed to load slot capacity:', error);
+                    toast.error(error instanceof Error ? error.message : 'Failed to load slot capacity');
+                }
+            } finally {
+                if (!isStale) setIsLoading(false);
+            }
+        };
+        loadSlots();
+
+        return () => {
+            isStale = true;
+        };
+    }, [providerId, date]);
+
+    // A cleared date input leaves nothing to step from
+    const shiftDate = (days: number) => {
+        setDate(prev => (prev ? format(addDays(parseISO(prev), days), 'yyyy-MM-dd') : prev));
+    };
+
+    const usage = slots.map(toUsage);
+    const totalCapacity = usage.reduce((sum, u) => sum + u.capacity, 0);
+    const totalBooked = usage.reduce((sum, u) => sum + u.booked, 0);
+    const fullCount = usage.filter(u => u.isFull).length;
+    const underUsedCount = usage.filter(u => u.isUnderUsed).length;
+
+    const formatSlotTime = (value: string) => format(new Date(value), 'h:mm a');
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex flex-wrap justify-between items-center gap-2">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <BarChart3 className="h-5 w-5" />
+                            Slot Capacity
+                        </CardTitle>
+                        <CardDescription>
+                            How full each slot is on a given day
+                        </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Button variant="outline" size="icon" onClick={() => shiftDate(-1)} disabled={!date} title="Previous day">
+                            <ChevronLeft className="h-4 w-4" />
+                        </Button>
+                        <Input
+                            type="date"
+                            className="w-40"
+                            aria-label="Date"
+                            value={date}
+                            onChange={(e) => setDate(e.target.value)}
+                        />
+                        <Button variant="outline" size="icon" onClick={() => shiftDate(1)} disabled={!date} title="Next day">
+                            <ChevronRight className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <div className="text-center py-8">
+                        <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                        <p className="mt-2 text-sm text-muted-foreground">Loading slots...</p>
+                    </div>
+                ) : usage.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                        <p className="font-medium">No slots on {date ? format(parseISO(date), 'EEEE, MMM d') : 'this day'}</p>
+                        <p className="text-sm">You are not scheduled to work on this date</p>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                            <div>
+                                <p className="text-muted-foreground">Booked</p>
+                                <p className="text-xl font-bold">{totalBooked} / {totalCapacity}</p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground">Utilization</p>
+                                <p className="text-xl font-bold">{totalCapacity > 0 ? Math.round((totalBooked / totalCapacity) * 100) : 0}%</p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground">Fully booked</p>
+                                <p className="text-xl font-bold text-red-600 dark:text-red-400">{fullCount}</p>
+                            </div>
+                            <div>
+                                <p className="text-muted-foreground">Under-used</p>
+                                <p className="text-xl font-bold text-amber-600 dark:text-amber-400">{underUsedCount}</p>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            {usage.map((u) => (
+                                <div key={u.slot.startTime} className="grid grid-cols-[7rem_1fr_auto] items-center gap-3 text-sm">
+                                    <span className="text-muted-foreground">
+                                        {formatSlotTime(u.slot.startTime)}
+                                    </span>
+                                    <Progress
+                                        value={u.utilization * 100}
+                                        aria-label={`${formatSlotTime(u.slot.startTime)} - ${formatSlotTime(u.slot.endTime)}`}
+                                        className={cn(
+                                            'h-3',
+                                            u.isFull && 'bg-red-100 dark:bg-red-900/20 [&>div]:bg-red-500',
+                                            u.isUnderUsed && 'bg-amber-100 dark:bg-amber-900/20 [&>div]:bg-amber-500'
+                                        )}
+                                    />
+                                    <div className="flex items-center gap-2 justify-end min-w-[8rem]">
+                                        <span className="tabular-nums">{u.booked}/{u.capacity}</span>
+                                        {u.isFull && <Badge variant="destructive">Full</Badge>}
+                                        {u.isUnderUsed && (
+                                            <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-100 dark:bg-amber-900/20 dark:text-amber-400">
+                                                Low
+                                            </Badge>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {usage.some(u => u.isCountBased) && (
+                            <p className="text-xs text-muted-foreground">
+                                Shared slots below {Math.round(UNDER_USED_THRESHOLD * 100)}% are marked as under-used.
+                            </p>
+                        )}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,293 @@
+import { useEffect, useState } from 'react';
+import { apiService, ScheduleConfig, ScheduleConfigRequest } from '../services/api';
+import { DAYS_OF_WEEK, blocksOverlap, nextBlockAfter, toTimeInputValue, validateTimeBlocks } from '../lib/schedule-time';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { FieldError } from './FieldError';
+import { ScheduleDayTimeline } from './ScheduleDayTimeline';
+import { toast } from 'sonner';
+import { CheckCircle2, Loader2, Plus, Trash2, XCircle } from 'lucide-react';
+
+type TemplateBlock = Omit<ScheduleConfigRequest, 'dayOfWeek'>;
+
+interface DayResult {
+    dayOfWeek: number;
+    created: number;
+    error?: string;
+}
+
+interface WeeklyScheduleTemplateDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    sourceDay: number | null; // Copy this day's blocks; null starts a blank weekly template
+    schedules: ScheduleConfig[];
+    onCreated: () => void;
+}
+
+const DEFAULT_TEMPLATE_BLOCK: TemplateBlock = { startTime: '09:00', endTime: '17:00', slotMetric: 30, isCount: false };
+const WEEKDAYS = ['1', '2', '3', '4', '5'];
+
+export function WeeklyScheduleTemplateDialog({ open, onOpenChange, sourceDay, schedules, onCreated }: WeeklyScheduleTemplateDialogProps) {
+    const [blocks, setBlocks] = useState<TemplateBlock[]>([DEFAULT_TEMPLATE_BLOCK]);
+    const [selectedDays, setSelectedDays] = useState<string[]>([]);
+    const [results, setResults] = useState<DayResult[] | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Start from the source day's blocks each time the dialog opens
+    useEffect(() => {
+        if (!open) return;
+        const sourceBlocks = sourceDay === null ? [] : schedules
+            .filter(s => s.dayOfWeek === sourceDay)
+            .map(s => ({
+                startTime: toTimeInputValue(s.startTime),
+                endTime: toTimeInputValue(s.endTime),
+                slotMetric: s.slotMetric,
+                isCount: s.isCount,
+            }));
+        setBlocks(sourceBlocks.length > 0 ? sourceBlocks : [DEFAULT_TEMPLATE_BLOCK]);
+        setSelectedDays(sourceDay === null ? WEEKDAYS : []);
+        setResults(null);
+    }, [open, sourceDay]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const blockErrors = validateTimeBlocks(blocks);
+    const hasBlockErrors = blockErrors.some(Boolean);
+
+    // Template blocks may not overlap hours a target day already has
+    const dayConflicts = new Map(DAYS_OF_WEEK.map(day => {
+        const existing = schedules.filter(s => s.dayOfWeek === day.value);
+        const conflicts = blocks.some(block => existing.some(other => blocksOverlap(block, other)));
+        return [day.value, conflicts ? 'Overlaps existing working hours' : null];
+    }));
+
+    const getDayLabel = (dayOfWeek: number) => DAYS_OF_WEEK.find(d => d.value === dayOfWeek)?.label ?? 'Unknown';
+
+    const updateBlock = (index: number, changes: Partial<TemplateBlock>) => {
+        setBlocks(prev => prev.map((block, i) => (i === index ? { ...block, ...changes } : block)));
+    };
+
+    // The new block keeps the last one's slot settings; there is none once the day is used up
+    const lastBlock = blocks[blocks.length - 1] ?? DEFAULT_TEMPLATE_BLOCK;
+    const nextBlock = nextBlockAfter(lastBlock);
+
+    const addBlock = () => {
+        if (!nextBlock) return;
+        setBlocks(prev => [...prev, { ...lastBlock, ...nextBlock }]);
+    };
+
+    const handleSubmit = async () => {
+        const days = selectedDays.map(Number).sort((a, b) => a - b);
+        if (days.length === 0) {
+            toast.error('Please select at least one day');
+            return;
+        }
+        if (hasBlockErrors) {
+            toast.error(blockErrors.find(Boolean) as string);
+            return;
+        }
+
+        const conflicted = days.filter(day => dayConflicts.get(day));
+        const targetDays = days.filter(day => !dayConflicts.get(day));
+
+        setIsSaving(true);
+        try {
+            const batch = await apiService.createScheduleConfigs(
+                targetDays.flatMap(dayOfWeek => blocks.map(block => ({ ...block, dayOfWeek })))
+            );
+
+            const dayResults: DayResult[] = days.map((dayOfWeek) => {
+                if (conflicted.includes(dayOfWeek)) {
+                    return { dayOfWeek, created: 0, error: 'Skipped: overlaps existing working hours' };
+                }
+                const dayBatch = batch.filter(result => result.request.dayOfWeek === dayOfWeek);
+                const failed = dayBatch.find(result => result.error);
+                return {
+                    dayOfWeek,
+                    created: dayBatch.filter(result => result.schedule).length,
+                    error: failed?.error?.message,
+                };
+            });
+            setResults(dayResults);
+
+            const failedDays = dayResults.filter(result => result.error).length;
+            if (failedDays === 0) {
+                toast.success(`Schedule created for ${days.length} day${days.length !== 1 ? 's' : ''}`);
+            } else {
+                toast.error(`${failedDays} of ${days.length} day${days.length !== 1 ? 's' : ''} could not be fully created`);
+            }
+            if (dayResults.some(result => result.created > 0)) {
+                onCreated();
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>
+                        {sourceDay === null ? 'Weekly Schedule Template' : `Copy ${getDayLabel(sourceDay)} to...`}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Apply the same working hours to several days at once. Days whose existing hours overlap are skipped.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {results ? (
+                    <ul className="space-y-2">
+                        {results.map((result) => (
+                            <li key={result.dayOfWeek} className="flex items-start gap-2 text-sm">
+                                {result.error ? (
+                                    <XCircle className="h-4 w-4 mt-0.5 text-destructive" />
+                                ) : (
+                                    <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600" />
+                                )}
+                                <div>
+                                    <p className="font-medium">{getDayLabel(result.dayOfWeek)}</p>
+                                    <p className="text-muted-foreground">
+                                        {result.created} block{result.created !== 1 ? 's' : ''} created
+                                        {result.error && ` - ${result.error}`}
+                                    </p>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <div className="space-y-6">
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <Label>Days</Label>
+                                <div className="flex gap-1">
+                                    <Button type="button" variant="ghost" size="sm" onClick={() => setSelectedDays(WEEKDAYS.filter(d => Number(d) !== sourceDay))}>
+                                        Weekdays
+                                    </Button>
+                                    <Button type="button" variant="ghost" size="sm" onClick={() => setSelectedDays([])}>
+                                        Clear
+                                    </Button>
+                                </div>
+                            </div>
+                            <ToggleGroup type="multiple" variant="outline" value={selectedDays} onValueChange={setSelectedDays} className="flex-wrap justify-start">
+                                {DAYS_OF_WEEK.map((day) => (
+                                    <ToggleGroupItem
+                                        key={day.value}
+                                        value={day.value.toString()}
+                                        disabled={day.value === sourceDay}
+                                        title={dayConflicts.get(day.value) ?? undefined}
+                                        className={dayConflicts.get(day.value) ? 'border-amber-500 text-amber-700 dark:text-amber-400' : undefined}
+                                    >
+                                        {day.label.slice(0, 3)}
+                                    </ToggleGroupItem>
+                                ))}
+                            </ToggleGroup>
+                            {selectedDays.some(day => dayConflicts.get(Number(day))) && (
+                                <p className="text-xs text-amber-600 dark:text-amber-400">
+                                    {selectedDays.filter(day => dayConflicts.get(Number(day))).map(day => getDayLabel(Number(day))).join(', ')} already
+                                    {' '}have overlapping hours and will be skipped.
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <Label>Working Blocks</Label>
+                                <Button type="button" variant="outline" size="sm" onClick={addBlock} disabled={!nextBlock}>
+                                    <Plus className="mr-2 h-4 w-4" />
+                                    Add Block
+                                </Button>
+                            </div>
+                            {blocks.map((block, index) => (
+                                <div key={index} className="space-y-1">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <Input
+                                            type="time"
+                                            className="w-32"
+                                            aria-label={`Block ${index + 1} start time`}
+                                            aria-invalid={!!blockErrors[index]}
+                                            value={block.startTime}
+                                            onChange={(e) => updateBlock(index, { startTime: e.target.value })}
+                                        />
+                                        <span className="text-muted-foreground">to</span>
+                                        <Input
+                                            type="time"
+                                            className="w-32"
+                                            aria-label={`Block ${index + 1} end time`}
+                                            aria-invalid={!!blockErrors[index]}
+                                            value={block.endTime}
+                                            onChange={(e) => updateBlock(index, { endTime: e.target.value })}
+                                        />
+                                        <Select
+                                            value={block.isCount ? 'count' : 'time'}
+                                            onValueChange={(value) => updateBlock(index, {
+                                                isCount: value === 'count',
+                                                slotMetric: value === 'count' ? 50 : 30,
+                                            })}
+                                        >
+                                            <SelectTrigger className="w-36" aria-label={`Block ${index + 1} slot type`}>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="time">Time-divided</SelectItem>
+                                                <SelectItem value="count">Count-based</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                        <Input
+                                            type="number"
+                                            min="1"
+                                            className="w-20"
+                                            aria-label={block.isCount ? 'Max customers' : 'Minutes per slot'}
+                                            title={block.isCount ? 'Max customers' : 'Minutes per slot'}
+                                            value={block.slotMetric}
+                                            onChange={(e) => updateBlock(index, { slotMetric: parseInt(e.target.value) })}
+                                        />
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => setBlocks(prev => prev.filter((_, i) => i !== index))}
+                                            disabled={blocks.length === 1}
+                                            title="Remove block"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                    <FieldError message={blockErrors[index] ?? undefined} />
+                                </div>
+                            ))}
+                            <ScheduleDayTimeline existing={[]} drafts={blocks} errors={blockErrors} />
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {results ? (
+                        <Button onClick={() => onOpenChange(false)}>Done</Button>
+                    ) : (
+                        <>
+                            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                                Cancel
+                            </Button>
+                            <Button
+                                onClick={handleSubmit}
+                                disabled={isSaving || selectedDays.length === 0 || hasBlockErrors || blocks.some(b => !b.slotMetric || b.slotMetric <= 0)}
+                            >
+                                {isSaving ? (
+                                    <>
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        Creating...
+                                    </>
+                                ) : (
+                                    `Apply to ${selectedDays.length} day${selectedDays.length !== 1 ? 's' : ''}`
+                                )}
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
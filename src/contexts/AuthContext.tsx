@@ -1,41 +1,87 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User } from '../services/api';
+import { useNavigate } from 'react-router-dom';
+import { apiService, User } from '../services/api';
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
-  login: (user: User, token: string) => void;
+  login: (user: User, token: string, refreshToken?: string) => void;
   logout: () => void;
+  updateUser: (changes: Partial<User>) => void;
   isLoading: boolean;
 }
 
+// Router state handed to the login page when a session ends on its own
+export interface LoginLocationState {
+  from?: string;
+  sessionExpired?: boolean;
+}
+
+// Router state handed to the signup page when a guest chooses to keep their booking in an account
+export interface SignupLocationState {
+  guest?: {
+    phone: string;
+    firstName: string;
+    lastName: string;
+    guestToken: string;
+  };
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const navigate = useNavigate();
 
   useEffect(() => {
     // Check if user is already logged in
     const storedUser = localStorage.getItem('user');
     const token = localStorage.getItem('accessToken');
-    
+
     if (storedUser && token) {
       setUser(JSON.parse(storedUser));
     }
     setIsLoading(false);
   }, []);
 
-  const login = (user: User, token: string) => {
+  useEffect(() => {
+    // The API client gave up refreshing the token: drop the session and send the user back here afterwards
+    return apiService.onSessionExpired(() => {
+      const from = `${window.location.pathname}${window.location.search}`;
+      setUser(null);
+      localStorage.removeItem('user');
+      navigate('/login', {
+        replace: true,
+        state: { from, sessionExpired: true } satisfies LoginLocationState,
+      });
+    });
+  }, [navigate]);
+
+  const login = (user: User, token: string, refreshToken?: string) => {
     setUser(user);
     localStorage.setItem('user', JSON.stringify(user));
     localStorage.setItem('accessToken', token);
+    if (refreshToken) {
+      localStorage.setItem('refreshToken', refreshToken);
+    }
+  };
+
+  // Keep the stored user in sync after profile changes (e.g. a provider finishing setup)
+  const updateUser = (changes: Partial<User>) => {
+    setUser(prev => {
+      if (!prev) return prev;
+      const next = { ...prev, ...changes };
+      localStorage.setItem('user', JSON.stringify(next));
+      return next;
+    });
   };
 
   const logout = () => {
     setUser(null);
     localStorage.removeItem('user');
     localStorage.removeItem('accessToken');
+    localStorage.removeItem('refreshToken');
   };
 
   return (
@@ -45,6 +91,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isAuthenticated: !!user,
         login,
         logout,
+        updateUser,
         isLoading,
       }}
     >
@@ -60,4 +107,3 @@ export function useAuth() {
   }
   return context;
 }
-
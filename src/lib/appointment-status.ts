@@ -0,0 +1,45 @@
+import type { AppointmentStatus } from '../services/api';
+
+interface AppointmentStatusConfig {
+  label: string;
+  className: string; // Tailwind classes for the status pill
+  transitions: AppointmentStatus[]; // Statuses this one may move to
+}
+
+// Single source of truth for the appointment lifecycle:
+// scheduled -> confirmed -> completed / no_show, with cancelled reachable until the visit happens
+export const APPOINTMENT_STATUS_CONFIG: Record<AppointmentStatus, AppointmentStatusConfig> = {
+  scheduled: {
+    label: 'Scheduled',
+    className: 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-400',
+    transitions: ['confirmed', 'cancelled'],
+  },
+  confirmed: {
+    label: 'Confirmed',
+    className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400',
+    transitions: ['completed', 'no_show', 'cancelled'],
+  },
+  completed: {
+    label: 'Completed',
+    className: 'bg-gray-100 text-gray-700 dark:bg-gray-900/20 dark:text-gray-400',
+    transitions: [],
+  },
+  no_show: {
+    label: 'No-show',
+    className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400',
+    transitions: [],
+  },
+  cancelled: {
+    label: 'Cancelled',
+    className: 'bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-400',
+    transitions: [],
+  },
+};
+
+export function canTransition(from: AppointmentStatus, to: AppointmentStatus): boolean {
+  return APPOINTMENT_STATUS_CONFIG[from]?.transitions.includes(to) ?? false;
+}
+
+export function isTerminalStatus(status: AppointmentStatus): boolean {
+  return (APPOINTMENT_STATUS_CONFIG[status]?.transitions.length ?? 0) === 0;
+}
@@ -0,0 +1,5 @@
+// One-time codes sent to guests' phones, used by guest booking and guest account conversion
+export const GUEST_OTP_LENGTH = 6;
+
+// Fallback wait before another code may be requested, when the backend does not say
+export const DEFAULT_RESEND_SECONDS = 30;
@@ -0,0 +1,15 @@
+export const PROVIDER_TYPES = [
+  { value: 'doctor', label: 'Doctor' },
+  { value: 'dentist', label: 'Dentist' },
+  { value: 'salon', label: 'Salon' },
+  { value: 'spa', label: 'Spa' },
+  { value: 'therapist', label: 'Therapist' },
+  { value: 'consultant', label: 'Consultant' },
+  { value: 'trainer', label: 'Trainer' },
+  { value: 'other', label: 'Other' },
+];
+
+// Falls back to capitalising unknown types the backend may add before the UI does
+export function formatProviderType(type: string): string {
+  return PROVIDER_TYPES.find(t => t.value === type)?.label ?? type.charAt(0).toUpperCase() + type.slice(1);
+}
@@ -0,0 +1,101 @@
+import { addDays, format, setHours, setMinutes, startOfDay } from 'date-fns';
+import { Bell, Mail, MessageSquare, type LucideIcon } from 'lucide-react';
+import type { Appointment, Provider, ReminderChannel } from '../services/api';
+
+interface ReminderChannelConfig {
+  label: string;
+  icon: LucideIcon;
+  segmentLength?: number; // Messages longer than this are split (and billed) as several
+}
+
+export const REMINDER_CHANNEL_CONFIG: Record<ReminderChannel, ReminderChannelConfig> = {
+  sms: { label: 'SMS', icon: MessageSquare, segmentLength: 160 },
+  email: { label: 'Email', icon: Mail },
+  in_app: { label: 'In-app', icon: Bell },
+};
+
+interface ReminderPlaceholder {
+  key: string;
+  label: string;
+  resolve: (appointment: Appointment) => string;
+}
+
+// Placeholders are written as {{key}} and filled in by the reminder service when the message is sent
+export const REMINDER_PLACEHOLDERS: ReminderPlaceholder[] = [
+  { key: 'customerFirstName', label: 'Customer first name', resolve: (a) => a.customer?.user.firstName ?? '' },
+  { key: 'customerLastName', label: 'Customer last name', resolve: (a) => a.customer?.user.lastName ?? '' },
+  { key: 'businessName', label: 'Business name', resolve: (a) => a.provider?.businessName ?? '' },
+  {
+    key: 'providerName',
+    label: 'Provider name',
+    resolve: (a) => (a.provider ? `${a.provider.user.firstName} ${a.provider.user.lastName}` : ''),
+  },
+  { key: 'appointmentDate', label: 'Appointment date', resolve: (a) => format(new Date(a.startTime), 'EEEE, MMM d') },
+  { key: 'appointmentTime', label: 'Appointment time', resolve: (a) => format(new Date(a.startTime), 'h:mm a') },
+  { key: 'serviceDescription', label: 'Service', resolve: (a) => a.serviceDescription ?? '' },
+];
+
+export const DEFAULT_REMINDER_TEMPLATE =
+  'Hi {{customerFirstName}}, this is a reminder of your appointment with {{businessName}} on {{appointmentDate}} at {{appointmentTime}}.';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function renderReminderTemplate(template: string, appointment: Appointment): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    const placeholder = REMINDER_PLACEHOLDERS.find((p) => p.key === key);
+    return placeholder ? placeholder.resolve(appointment) : match;
+  });
+}
+
+export function findUnknownPlaceholders(template: string): string[] {
+  const unknown = new Set<string>();
+  for (const [, key] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!REMINDER_PLACEHOLDERS.some((p) => p.key === key)) {
+      unknown.add(key);
+    }
+  }
+  return [...unknown];
+}
+
+// Stand-in booking used to preview templates: tomorrow at 10:00 with the provider's own details
+export function createSampleAppointment(provider?: Provider | null): Appointment {
+  const start = setMinutes(setHours(addDays(startOfDay(new Date()), 1), 10), 0);
+  const end = new Date(start.getTime() + (provider?.slotDurationMinutes ?? 30) * 60 * 1000);
+  const now = new Date().toISOString();
+
+  return {
+    id: 'sample',
+    customerId: 'sample-customer',
+    providerId: provider?.id ?? 'sample-provider',
+    appointmentDate: format(start, 'yyyy-MM-dd'),
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    serviceDescription: 'Consultation',
+    status: 'scheduled',
+    createdAt: now,
+    updatedAt: now,
+    provider: {
+      id: provider?.id ?? 'sample-provider',
+      userId: provider?.userId ?? 'sample-provider-user',
+      providerType: provider?.providerType ?? 'doctor',
+      businessName: provider?.businessName ?? 'Your Business',
+      specialization: provider?.specialization,
+      user: {
+        id: provider?.userId ?? 'sample-provider-user',
+        firstName: provider?.firstName ?? 'Alex',
+        lastName: provider?.lastName ?? 'Smith',
+        phone: provider?.phone ?? '',
+      },
+    },
+    customer: {
+      id: 'sample-customer',
+      userId: 'sample-customer-user',
+      user: {
+        id: 'sample-customer-user',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        phone: '+1234567890',
+      },
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { subDays } from 'date-fns';
+import type { ReminderSchedule } from '../services/api';
+
+// Reminders firing closer together than this are reported as colliding
+export const REMINDER_COLLISION_WINDOW_MINUTES = 60;
+
+export interface ReminderFireTime {
+  reminder: ReminderSchedule;
+  firesAt: Date;
+  isPast: boolean; // Would be due before the booking was even made, so it is never sent
+  collidesWith: string[]; // Ids of other reminders firing within the collision window
+}
+
+export function formatReminderTiming(reminder: Pick<ReminderSchedule, 'type' | 'value'>): string {
+  if (reminder.type === 'days_before') {
+    return `${reminder.value} day${reminder.value !== 1 ? 's' : ''} before`;
+  }
+  return `${reminder.value}% of time before`;
+}
+
+// days_before counts back from the appointment; percentage is the share of the
+// booking-to-appointment gap that has elapsed when the reminder goes out
+export function getReminderFireTime(reminder: ReminderSchedule, bookedAt: Date, appointmentAt: Date): Date {
+  if (reminder.type === 'days_before') {
+    return subDays(appointmentAt, reminder.value);
+  }
+  const lead = appointmentAt.getTime() - bookedAt.getTime();
+  return new Date(bookedAt.getTime() + (lead * reminder.value) / 100);
+}
+
+export function computeReminderTimeline(
+  reminders: ReminderSchedule[],
+  bookedAt: Date,
+  appointmentAt: Date
+): ReminderFireTime[] {
+  const windowMs = REMINDER_COLLISION_WINDOW_MINUTES * 60 * 1000;
+  const timeline = reminders
+    .map((reminder) => {
+      const firesAt = getReminderFireTime(reminder, bookedAt, appointmentAt);
+      return { reminder, firesAt, isPast: firesAt < bookedAt, collidesWith: [] as string[] };
+    })
+    .sort((a, b) => a.firesAt.getTime() - b.firesAt.getTime());
+
+  // Reminders that are never sent cannot collide with anything
+  const sent = timeline.filter((entry) => !entry.isPast);
+  sent.forEach((entry, i) => {
+    sent.slice(i + 1).forEach((other) => {
+      if (other.firesAt.getTime() - entry.firesAt.getTime() < windowMs) {
+        entry.collidesWith.push(other.reminder.id);
+        other.collidesWith.push(entry.reminder.id);
+      }
+    });
+  });
+
+  return timeline;
+}
@@ -0,0 +1,19 @@
+import { User } from '../services/api';
+
+export const HOME_BY_ROLE: Record<User['userType'], string> = {
+  customer: '/customer',
+  provider: '/provider',
+};
+
+// Path sections each role's protected routes live under (see App.tsx)
+const ROUTE_PREFIXES_BY_ROLE: Record<User['userType'], string[]> = {
+  customer: ['/customer', '/providers'],
+  provider: ['/provider'],
+};
+
+// Whether a path (query string allowed) belongs to the role; prefixes match whole segments,
+// so '/provider' does not claim '/providers/:id'
+export function isRouteForRole(path: string, role: User['userType']): boolean {
+  const pathname = path.split(/[?#]/)[0];
+  return ROUTE_PREFIXES_BY_ROLE[role].some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
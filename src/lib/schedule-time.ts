@@ -0,0 +1,78 @@
+export const DAYS_OF_WEEK = [
+  { value: 0, label: 'Sunday' },
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+];
+
+// Schedule times arrive either as HH:mm or as full timestamps; both become minutes since midnight
+export function toMinutes(value: string): number {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (match) {
+    return parseInt(match[1]) * 60 + parseInt(match[2]);
+  }
+  const date = new Date(value);
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+// HH:mm, as used by <input type="time"> and the schedule endpoints
+export function minutesToTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60).toString().padStart(2, '0');
+  const mins = (minutes % 60).toString().padStart(2, '0');
+  return `${hours}:${mins}`;
+}
+
+export function toTimeInputValue(value: string): string {
+  return minutesToTime(toMinutes(value));
+}
+
+export interface TimeBlock {
+  startTime: string;
+  endTime: string;
+}
+
+const LAST_MINUTE_OF_DAY = 23 * 60 + 59;
+
+// Suggested block for "Add Block": up to four hours, starting an hour after the last one
+// (or right at its end late in the day); null once the last block runs to the end of the day
+export function nextBlockAfter(last: TimeBlock): TimeBlock | null {
+  const lastEnd = toMinutes(last.endTime);
+  if (lastEnd >= LAST_MINUTE_OF_DAY) {
+    return null;
+  }
+  const start = lastEnd + 60 < LAST_MINUTE_OF_DAY ? lastEnd + 60 : lastEnd;
+  return {
+    startTime: minutesToTime(start),
+    endTime: minutesToTime(Math.min(start + 4 * 60, LAST_MINUTE_OF_DAY)),
+  };
+}
+
+export function blocksOverlap(a: TimeBlock, b: TimeBlock): boolean {
+  return toMinutes(a.startTime) < toMinutes(b.endTime) && toMinutes(b.startTime) < toMinutes(a.endTime);
+}
+
+// Per-block validation message (or null) for a day's draft blocks, checked against
+// each other and against blocks already saved for that day
+export function validateTimeBlocks(blocks: TimeBlock[], existing: TimeBlock[] = []): (string | null)[] {
+  return blocks.map((block, index) => {
+    if (!block.startTime || !block.endTime) {
+      return 'Start and end time are required';
+    }
+    const start = toMinutes(block.startTime);
+    const end = toMinutes(block.endTime);
+    if (end <= start) {
+      return 'End time must be after start time';
+    }
+
+    if (existing.some((other) => blocksOverlap(block, other))) {
+      return 'Overlaps existing working hours';
+    }
+    if (blocks.some((other, otherIndex) => otherIndex !== index && other.startTime && other.endTime && blocksOverlap(block, other))) {
+      return 'Overlaps another block';
+    }
+    return null;
+  });
+}
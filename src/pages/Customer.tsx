@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { apiService, Provider, AvailableDate, TimeSlot } from '../services/api';
 import { Button } from '../components/ui/button';
@@ -7,23 +7,24 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Label } from '../components/ui/label';
 import { Textarea } from '../components/ui/textarea';
+import { AvailabilityCalendar } from '../components/AvailabilityCalendar';
+import { ProviderSearch } from '../components/ProviderSearch';
+import { ProviderQuickSearch } from '../components/ProviderQuickSearch';
+import { PROVIDER_TYPES } from '../lib/provider-types';
 import { toast } from 'sonner';
-import { Loader2, Calendar, Clock, LogOut, CheckCircle2 } from 'lucide-react';
-
-const PROVIDER_TYPES = [
-  { value: 'doctor', label: 'Doctor' },
-  { value: 'dentist', label: 'Dentist' },
-  { value: 'salon', label: 'Salon' },
-  { value: 'spa', label: 'Spa' },
-  { value: 'therapist', label: 'Therapist' },
-  { value: 'consultant', label: 'Consultant' },
-  { value: 'trainer', label: 'Trainer' },
-  { value: 'other', label: 'Other' },
-];
+import { Loader2, Calendar, Clock, LogOut, CheckCircle2, ListChecks, UserCircle, Search } from 'lucide-react';
+
+interface BookingSelection {
+  type?: string;
+  provider?: string;
+  date?: string; // YYYY-MM-DD format
+  slot?: string; // HH:mm start time
+}
 
 export default function Customer() {
-  const { user, logout, isLoading } = useAuth();
+  const { user, logout } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   
   const [providers, setProviders] = useState<Provider[]>([]);
   const [availableDates, setAvailableDates] = useState<AvailableDate[]>([]);
@@ -39,14 +40,77 @@ export default function Customer() {
   const [isLoadingDates, setIsLoadingDates] = useState(false);
   const [isLoadingSlots, setIsLoadingSlots] = useState(false);
   const [isBooking, setIsBooking] = useState(false);
+  // The provider the wizard is on now; async steps started for another provider drop their results
+  // so a late response cannot bring back that provider's date or slot
+  const activeProviderRef = useRef('');
+  // Likewise for the date: slots that arrive for a date the customer already moved off are dropped
+  const activeDateRef = useRef('');
 
+  // Restore the wizard from /customer/book?type=...&provider=...&date=...&slot=... after a refresh or from a shared link
   useEffect(() => {
-    // Wait for auth to finish loading before checking user
-    if (!isLoading && !user) {
-      navigate('/login');
+    const providerId = searchParams.get('provider');
+    const providerType = searchParams.get('type');
+    if (providerId) {
+      restoreBooking(providerId, searchParams.get('date') || undefined, searchParams.get('slot') || undefined);
+    } else if (providerType) {
+      handleProviderTypeChange(providerType);
+    }
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Mirrors the wizard selections into the URL; replace keeps each click out of the history
+  const updateBookingParams = (selection: BookingSelection) => {
+    const params = new URLSearchParams();
+    if (selection.type) params.set('type', selection.type);
+    if (selection.provider) params.set('provider', selection.provider);
+    if (selection.date) params.set('date', selection.date);
+    if (selection.slot) params.set('slot', selection.slot);
+    navigate({ pathname: '/customer/book', search: params.toString() }, { replace: true });
+  };
+
+  // Each step is re-fetched, so anything no longer bookable is dropped instead of restored
+  const restoreBooking = async (providerId: string, date?: string, slot?: string) => {
+    activeProviderRef.current = providerId;
+    const profile = await apiService.getProviderProfile(providerId);
+    if (activeProviderRef.current !== providerId) return;
+    if (!profile) {
+      toast.error('That provider could not be found');
+      updateBookingParams({});
       return;
     }
-  }, [user, isLoading, navigate]);
+
+    const dates = await selectProvider(profile);
+    if (!date || activeProviderRef.current !== profile.id) return;
+    if (!dates.some(d => d.isAvailable && d.date.slice(0, 10) === date)) {
+      toast.info('The selected date is no longer available');
+      return;
+    }
+
+    setSelectedDate(date);
+    const slots = await loadTimeSlots(profile.id, date);
+    if (activeProviderRef.current !== profile.id || activeDateRef.current !== date) return;
+    const restoredSlot = slot
+      ? slots.find(s => s.isAvailable && formatTimeTo24Hour(s.startTime) === slot)
+      : undefined;
+    if (slot && !restoredSlot) {
+      toast.info('The selected time is no longer available');
+    }
+    if (restoredSlot) {
+      setSelectedTimeSlot(restoredSlot.startTime);
+    }
+    updateBookingParams({ type: profile.providerType, provider: profile.id, date, slot: restoredSlot ? slot : undefined });
+  };
+
+  // Jumps the wizard straight to date selection for a provider found outside the type/provider selects
+  const selectProvider = async (provider: Provider) => {
+    document.getElementById('booking-wizard')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    activeProviderRef.current = provider.id;
+    setSelectedProviderType(provider.providerType);
+    updateBookingParams({ type: provider.providerType, provider: provider.id });
+    await loadProviders(provider.providerType);
+    if (activeProviderRef.current !== provider.id) return [];
+    setSelectedProvider(provider.id);
+    return loadAvailableDates(provider.id, provider.bookingLimitDays);
+  };
 
   const loadProviders = async (providerType: string) => {
     setIsLoadingProviders(true);
@@ -54,6 +118,7 @@ export default function Customer() {
     setSelectedProvider('');
     setAvailableDates([]);
     setSelectedDate('');
+    activeDateRef.current = '';
     setTimeSlots([]);
     setSelectedTimeSlot('');
     
@@ -67,34 +132,38 @@ export default function Customer() {
     }
   };
 
-  const loadAvailableDates = async (providerId: string) => {
+  const loadAvailableDates = async (providerId: string, days = getBookingLimitDays(providerId)): Promise<AvailableDate[]> => {
     setIsLoadingDates(true);
     setAvailableDates([]);
     setSelectedDate('');
+    activeDateRef.current = '';
     setTimeSlots([]);
     setSelectedTimeSlot('');
     
     try {
       const dates = await apiService.getAvailableDates({ 
         providerId, 
-        days: 30 
+        days
       });
-      // Filter only available dates
-      const availableDates = dates.filter(d => d.isAvailable);
-      setAvailableDates(availableDates);
+      if (activeProviderRef.current !== providerId) return [];
+      // Keep unavailable dates too so the calendar can explain why they are closed
+      setAvailableDates(dates);
       
-      if (availableDates.length === 0) {
+      if (dates.filter(d => d.isAvailable).length === 0) {
         toast.info('No available dates found for this provider');
       }
+      return dates;
     } catch (error) {
       toast.error('Failed to load available dates');
       console.error('Error loading dates:', error);
+      return [];
     } finally {
       setIsLoadingDates(false);
     }
   };
 
-  const loadTimeSlots = async (providerId: string, date: string) => {
+  const loadTimeSlots = async (providerId: string, date: string): Promise<TimeSlot[]> => {
+    activeDateRef.current = date;
     setIsLoadingSlots(true);
     setTimeSlots([]);
     setSelectedTimeSlot('');
@@ -104,36 +173,63 @@ export default function Customer() {
         providerId, 
         date 
       });
+      if (activeProviderRef.current !== providerId || activeDateRef.current !== date) return [];
       setTimeSlots(slots);
       
       if (slots.filter(s => s.isAvailable).length === 0) {
         toast.info('No available time slots for this date');
       }
+      return slots;
     } catch (error) {
+      if (activeDateRef.current !== date) return [];
       toast.error('Failed to load time slots');
       console.error('Error loading slots:', error);
+      return [];
     } finally {
-      setIsLoadingSlots(false);
+      // A newer date's request owns the spinner; with no date selected nothing is loading
+      if (activeDateRef.current === date || !activeDateRef.current) setIsLoadingSlots(false);
     }
   };
 
+  const getBookingLimitDays = (providerId: string) => {
+    return providers.find(p => p.id === providerId)?.bookingLimitDays || 30;
+  };
+
+  // Date-specific notes from the provider, e.g. special opening hours
+  const selectedDateReason = availableDates.find(d => d.date.slice(0, 10) === selectedDate)?.reason;
+
   const handleProviderTypeChange = (value: string) => {
+    activeProviderRef.current = '';
     setSelectedProviderType(value);
+    updateBookingParams({ type: value });
     loadProviders(value);
   };
 
+  // Dates and slots belong to the previous provider, so they leave the URL along with it
   const handleProviderChange = (value: string) => {
+    activeProviderRef.current = value;
     setSelectedProvider(value);
+    setSelectedDate('');
+    activeDateRef.current = '';
+    setSelectedTimeSlot('');
+    updateBookingParams({ type: selectedProviderType, provider: value });
     loadAvailableDates(value);
   };
 
   const handleDateChange = (value: string) => {
     setSelectedDate(value);
+    updateBookingParams({ type: selectedProviderType, provider: selectedProvider, date: value });
     loadTimeSlots(selectedProvider, value);
   };
 
   const handleTimeSlotChange = (value: string) => {
     setSelectedTimeSlot(value);
+    updateBookingParams({
+      type: selectedProviderType,
+      provider: selectedProvider,
+      date: selectedDate,
+      slot: formatTimeTo24Hour(value),
+    });
   };
 
   const handleBookAppointment = async () => {
@@ -162,13 +258,21 @@ export default function Customer() {
       
       toast.success(
         `Appointment booked successfully! ${formatDate(selectedDate)} at ${timeDisplay}`,
-        { duration: 5000 }
+        {
+          duration: 5000,
+          action: {
+            label: 'View',
+            onClick: () => navigate('/customer/appointments'),
+          },
+        }
       );
       
       // Reset form
+      updateBookingParams({});
       setSelectedProviderType('');
       setSelectedProvider('');
       setSelectedDate('');
+      activeDateRef.current = '';
       setSelectedTimeSlot('');
       setServiceDescription('');
       setProviders([]);
@@ -221,18 +325,6 @@ export default function Customer() {
     return date.toTimeString().slice(0, 5); // HH:mm format
   };
 
-  // Show loading state while checking authentication
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
-        <div className="text-center">
-          <Loader2 className="h-12 w-12 animate-spin mx-auto text-primary" />
-          <p className="mt-4 text-muted-foreground">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
       <div className="container mx-auto p-4 max-w-4xl">
@@ -241,13 +333,35 @@ export default function Customer() {
             <h1 className="text-3xl font-bold">Welcome, {user?.firstName}!</h1>
             <p className="text-muted-foreground">Book your appointment easily</p>
           </div>
-          <Button variant="outline" onClick={handleLogout}>
-            <LogOut className="mr-2 h-4 w-4" />
-            Logout
-          </Button>
+          <div className="flex gap-2">
+            <ProviderQuickSearch onSelect={selectProvider} />
+            <Button variant="outline" onClick={() => navigate('/customer/appointments')}>
+              <ListChecks className="mr-2 h-4 w-4" />
+              My Appointments
+            </Button>
+            <Button variant="outline" onClick={handleLogout}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Logout
+            </Button>
+          </div>
         </div>
 
-        <Card className="shadow-lg">
+        <Card className="shadow-lg mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Search className="h-5 w-5" />
+              Find a Provider
+            </CardTitle>
+            <CardDescription>
+              Search by name or specialization, narrow by type, or find someone with an opening soon
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ProviderSearch onSelect={selectProvider} />
+          </CardContent>
+        </Card>
+
+        <Card id="booking-wizard" className="shadow-lg">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Calendar className="h-5 w-5" />
@@ -309,37 +423,49 @@ export default function Customer() {
                     ))}
                   </SelectContent>
                 </Select>
+                {selectedProvider && (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => navigate(`/providers/${selectedProvider}`)}
+                  >
+                    <UserCircle className="mr-1 h-4 w-4" />
+                    View provider profile
+                  </Button>
+                )}
               </div>
             )}
 
             {/* Step 3: Select Date */}
             {selectedProvider && (
               <div className="space-y-2">
-                <Label htmlFor="date" className="text-base font-semibold">
+                <Label className="text-base font-semibold">
                   3. Select Date
                 </Label>
-                <Select
-                  value={selectedDate}
-                  onValueChange={handleDateChange}
-                  disabled={isLoadingDates || availableDates.length === 0}
-                >
-                  <SelectTrigger id="date" className="w-full">
-                    <SelectValue placeholder={
-                      isLoadingDates 
-                        ? "Loading dates..." 
-                        : availableDates.length === 0 
-                        ? "No dates available" 
-                        : "Choose a date"
-                    } />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {availableDates.map((date) => (
-                      <SelectItem key={date.date} value={date.date}>
-                        {formatDate(date.date)} - {date.dayName}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                {isLoadingDates ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading dates...
+                  </div>
+                ) : availableDates.some(d => d.isAvailable) ? (
+                  <>
+                    <AvailabilityCalendar
+                      dates={availableDates}
+                      selectedDate={selectedDate}
+                      onSelect={handleDateChange}
+                      bookingLimitDays={getBookingLimitDays(selectedProvider)}
+                    />
+                    {selectedDate && (
+                      <p className="text-sm text-muted-foreground">
+                        Selected: {formatDate(selectedDate)}
+                        {selectedDateReason && ` · ${selectedDateReason}`}
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground py-4">No dates available</p>
+                )}
               </div>
             )}
 
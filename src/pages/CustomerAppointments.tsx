@@ -0,0 +1,300 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { apiService, Appointment } from '../services/api';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
+import { CancelAppointmentDialog } from '../components/CancelAppointmentDialog';
+import { RescheduleAppointmentDialog } from '../components/RescheduleAppointmentDialog';
+import { APPOINTMENT_STATUS_CONFIG, canTransition, isTerminalStatus } from '../lib/appointment-status';
+import { toast } from 'sonner';
+import { Loader2, Calendar, Clock, LogOut, ArrowLeft, Briefcase, FileText, XCircle } from 'lucide-react';
+
+type AppointmentGroup = 'upcoming' | 'past' | 'cancelled';
+
+const EMPTY_MESSAGES: Record<AppointmentGroup, string> = {
+  upcoming: 'You have no upcoming appointments',
+  past: 'No past appointments yet',
+  cancelled: 'No cancelled appointments',
+};
+
+export default function CustomerAppointments() {
+  const { user, logout } = useAuth();
+  const navigate = useNavigate();
+
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [isLoadingAppointments, setIsLoadingAppointments] = useState(true);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [user?.id]);
+
+  const loadAppointments = async () => {
+    setIsLoadingAppointments(true);
+    try {
+      const appointmentList = await apiService.getCustomerAppointments();
+      setAppointments(appointmentList);
+    } catch (error) {
+      console.error('Failed to load appointments:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load appointments');
+      setAppointments([]);
+    } finally {
+      setIsLoadingAppointments(false);
+    }
+  };
+
+  const handleCancel = async (appointmentId: string, reason: string) => {
+    const previous = appointments;
+
+    // Optimistically move the appointment to the cancelled tab
+    setAppointments(prev => prev.map(a => a.id === appointmentId
+      ? {
+          ...a,
+          status: 'cancelled',
+          cancellationReason: reason,
+          cancelledBy: 'customer',
+          cancelledAt: new Date().toISOString(),
+        }
+      : a
+    ));
+
+    try {
+      const updated = await apiService.cancelAppointment(appointmentId, reason);
+      if (updated && updated.id) {
+        setAppointments(prev => prev.map(a => a.id === appointmentId ? { ...a, ...updated } : a));
+      }
+      toast.success('Appointment cancelled');
+    } catch (error) {
+      setAppointments(previous);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel appointment');
+    }
+  };
+
+  const handleRescheduled = (updated: Appointment) => {
+    setAppointments(prev => prev.map(a => a.id === updated.id ? { ...a, ...updated } : a));
+  };
+
+  const groupAppointments = (list: Appointment[]): Record<AppointmentGroup, Appointment[]> => {
+    const now = Date.now();
+    const groups: Record<AppointmentGroup, Appointment[]> = { upcoming: [], past: [], cancelled: [] };
+
+    list.forEach((appointment) => {
+      if (appointment.status === 'cancelled') {
+        groups.cancelled.push(appointment);
+      } else if (!isTerminalStatus(appointment.status) && new Date(appointment.startTime).getTime() >= now) {
+        groups.upcoming.push(appointment);
+      } else {
+        groups.past.push(appointment);
+      }
+    });
+
+    const byStart = (a: Appointment, b: Appointment) =>
+      new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
+
+    // Soonest first for upcoming, most recent first for everything else
+    groups.upcoming.sort(byStart);
+    groups.past.sort((a, b) => byStart(b, a));
+    groups.cancelled.sort((a, b) => byStart(b, a));
+
+    return groups;
+  };
+
+  const handleLogout = () => {
+    logout();
+    navigate('/login');
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const formatTime = (isoString: string) => {
+    const date = new Date(isoString);
+    return date.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  const formatDateTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const renderAppointment = (appointment: Appointment, group: AppointmentGroup) => (
+    <div
+      key={appointment.id}
+      className="p-4 border rounded-lg hover:bg-accent/50 transition-colors"
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-4 flex-1 min-w-0">
+          <div className="flex items-center justify-center w-12 h-12 rounded-full bg-primary/10 flex-shrink-0">
+            <Briefcase className="h-6 w-6 text-primary" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h4 className="font-semibold text-lg">
+              {appointment.provider?.businessName || 'Provider'}
+            </h4>
+            {appointment.provider?.user && (
+              <p className="text-sm text-muted-foreground">
+                {appointment.provider.user.firstName} {appointment.provider.user.lastName}
+                {appointment.provider.specialization && ` (${appointment.provider.specialization})`}
+              </p>
+            )}
+            <div className="mt-2 space-y-1 text-sm text-muted-foreground">
+              <div className="flex items-center gap-2">
+                <Calendar className="h-4 w-4 flex-shrink-0 text-primary" />
+                <span>{formatDate(appointment.appointmentDate)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 flex-shrink-0 text-primary" />
+                <span>{formatTime(appointment.startTime)} - {formatTime(appointment.endTime)}</span>
+              </div>
+            </div>
+            {appointment.serviceDescription && (
+              <div className="mt-3 flex items-start gap-2 text-sm">
+                <FileText className="h-4 w-4 text-primary mt-0.5 flex-shrink-0" />
+                <p>{appointment.serviceDescription}</p>
+              </div>
+            )}
+            {appointment.status === 'cancelled' && appointment.cancellationReason && (
+              <div className="mt-3 pt-3 border-t">
+                <p className="text-xs font-medium text-red-600 dark:text-red-400 mb-1">Cancellation Reason</p>
+                <p className="text-sm text-red-600 dark:text-red-400">{appointment.cancellationReason}</p>
+                {appointment.cancelledAt && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Cancelled at: {formatDateTime(appointment.cancelledAt)}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-col items-end gap-2 flex-shrink-0">
+          <span className={`text-xs px-2 py-1 rounded-full font-medium ${APPOINTMENT_STATUS_CONFIG[appointment.status]?.className ?? 'bg-gray-100 text-gray-700 dark:bg-gray-900/20 dark:text-gray-400'}`}>
+            {APPOINTMENT_STATUS_CONFIG[appointment.status]?.label ?? appointment.status}
+          </span>
+          {group === 'upcoming' && (
+            <div className="flex gap-2">
+              <RescheduleAppointmentDialog
+                appointment={appointment}
+                onRescheduled={handleRescheduled}
+              />
+              {canTransition(appointment.status, 'cancelled') && (
+                <CancelAppointmentDialog
+                  appointment={appointment}
+                  onConfirm={(reason) => handleCancel(appointment.id, reason)}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderGroup = (group: AppointmentGroup, list: Appointment[]) => (
+    <TabsContent value={group} className="mt-4">
+      {list.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {group === 'cancelled' ? (
+            <XCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          ) : (
+            <Calendar className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          )}
+          <p className="text-lg font-medium">{EMPTY_MESSAGES[group]}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {list.map((appointment) => renderAppointment(appointment, group))}
+        </div>
+      )}
+    </TabsContent>
+  );
+
+  const groups = groupAppointments(appointments);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto p-4 max-w-4xl">
+        <div className="flex justify-between items-center mb-6 pt-6">
+          <div>
+            <h1 className="text-3xl font-bold">My Appointments</h1>
+            <p className="text-muted-foreground">Everything you have booked, {user?.firstName}</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate('/customer')}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Book
+            </Button>
+            <Button variant="outline" onClick={handleLogout}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Logout
+            </Button>
+          </div>
+        </div>
+
+        <Card className="shadow-lg">
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Calendar className="h-5 w-5" />
+                  Appointments
+                </CardTitle>
+                <CardDescription>
+                  Upcoming visits, your history and anything that was cancelled
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={loadAppointments}
+                disabled={isLoadingAppointments}
+              >
+                {isLoadingAppointments ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Calendar className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoadingAppointments ? (
+              <div className="text-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                <p className="mt-2 text-sm text-muted-foreground">Loading appointments...</p>
+              </div>
+            ) : (
+              <Tabs defaultValue="upcoming">
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="upcoming">Upcoming ({groups.upcoming.length})</TabsTrigger>
+                  <TabsTrigger value="past">Past ({groups.past.length})</TabsTrigger>
+                  <TabsTrigger value="cancelled">Cancelled ({groups.cancelled.length})</TabsTrigger>
+                </TabsList>
+                {renderGroup('upcoming', groups.upcoming)}
+                {renderGroup('past', groups.past)}
+                {renderGroup('cancelled', groups.cancelled)}
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,562 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { LoginLocationState, SignupLocationState } from '../contexts/AuthContext';
+import { apiService, Provider, AvailableDate, TimeSlot, Appointment, GuestVerification, FieldErrors, getFieldErrors } from '../services/api';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Textarea } from '../components/ui/textarea';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '../components/ui/input-otp';
+import { AvailabilityCalendar } from '../components/AvailabilityCalendar';
+import { ProviderSearch } from '../components/ProviderSearch';
+import { FieldError } from '../components/FieldError';
+import { GUEST_OTP_LENGTH, DEFAULT_RESEND_SECONDS } from '../lib/guest-otp';
+import { toast } from 'sonner';
+import { Loader2, Calendar, Clock, CheckCircle2, Phone, User, ShieldCheck, UserPlus, Link2 } from 'lucide-react';
+
+type GuestStep = 'select' | 'verify' | 'confirmed';
+
+export default function GuestBooking() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const providerId = searchParams.get('provider');
+
+  const [provider, setProvider] = useState<Provider | null>(null);
+  const [availableDates, setAvailableDates] = useState<AvailableDate[]>([]);
+  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+
+  const [selectedDate, setSelectedDate] = useState('');
+  const [selectedTimeSlot, setSelectedTimeSlot] = useState('');
+  const [serviceDescription, setServiceDescription] = useState('');
+  const [guest, setGuest] = useState({ firstName: '', lastName: '', phone: '' });
+
+  const [step, setStep] = useState<GuestStep>('select');
+  const [otpCode, setOtpCode] = useState('');
+  const [resendIn, setResendIn] = useState(0);
+  const [verification, setVerification] = useState<GuestVerification | null>(null);
+  const [verifiedPhone, setVerifiedPhone] = useState('');
+  const [appointment, setAppointment] = useState<Appointment | null>(null);
+
+  const [isLoadingProvider, setIsLoadingProvider] = useState(true);
+  const [isLoadingDates, setIsLoadingDates] = useState(false);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [isSendingCode, setIsSendingCode] = useState(false);
+  const [isBooking, setIsBooking] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  useEffect(() => {
+    loadProvider();
+  }, [providerId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Counts down until another code may be requested
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(prev => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const loadProvider = async () => {
+    if (!providerId) {
+      setIsLoadingProvider(false);
+      return;
+    }
+    setIsLoadingProvider(true);
+    try {
+      const profile = await apiService.getProviderProfile(providerId);
+      setProvider(profile);
+      if (profile) {
+        loadAvailableDates(profile);
+      }
+    } finally {
+      setIsLoadingProvider(false);
+    }
+  };
+
+  const loadAvailableDates = async (profile: Provider) => {
+    setIsLoadingDates(true);
+    try {
+      const dates = await apiService.getAvailableDates({
+        providerId: profile.id,
+        days: profile.bookingLimitDays || 30,
+      });
+      setAvailableDates(dates);
+    } catch (error) {
+      toast.error('Failed to load available dates');
+      console.error('Error loading dates:', error);
+    } finally {
+      setIsLoadingDates(false);
+    }
+  };
+
+  const loadTimeSlots = async (date: string) => {
+    if (!provider) return;
+    setIsLoadingSlots(true);
+    setTimeSlots([]);
+    setSelectedTimeSlot('');
+    try {
+      const slots = await apiService.getAvailableSlots({ providerId: provider.id, date });
+      setTimeSlots(slots);
+      if (slots.filter(s => s.isAvailable).length === 0) {
+        toast.info('No available time slots for this date');
+      }
+    } catch (error) {
+      toast.error('Failed to load time slots');
+      console.error('Error loading slots:', error);
+    } finally {
+      setIsLoadingSlots(false);
+    }
+  };
+
+  const handleDateChange = (value: string) => {
+    setSelectedDate(value);
+    loadTimeSlots(value);
+  };
+
+  const handleGuestChange = (field: keyof typeof guest, value: string) => {
+    setGuest(prev => ({ ...prev, [field]: value }));
+  };
+
+  // A still-valid verification for the same phone is reused, e.g. after picking a new slot
+  const hasValidVerification = () =>
+    !!verification && verifiedPhone === guest.phone && new Date(verification.expiresAt) > new Date();
+
+  const handleSendCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    if (!selectedDate || !selectedTimeSlot) {
+      toast.error('Please choose a date and time');
+      return;
+    }
+    if (!guest.firstName || !guest.lastName || !guest.phone) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    if (hasValidVerification() && verification) {
+      bookAsGuest(verification);
+      return;
+    }
+
+    setIsSendingCode(true);
+    setFieldErrors({});
+    try {
+      const response = await apiService.requestGuestOtp(guest.phone);
+      setOtpCode('');
+      setResendIn(response.resendAfterSeconds ?? DEFAULT_RESEND_SECONDS);
+      setStep('verify');
+      toast.success(`We sent a ${GUEST_OTP_LENGTH}-digit code to ${guest.phone}`);
+    } catch (error) {
+      setFieldErrors(getFieldErrors(error));
+      toast.error(error instanceof Error ? error.message : 'Failed to send verification code');
+    } finally {
+      setIsSendingCode(false);
+    }
+  };
+
+  const handleVerify = async (code: string = otpCode) => {
+    if (code.length !== GUEST_OTP_LENGTH) {
+      toast.error(`Please enter the ${GUEST_OTP_LENGTH}-digit code`);
+      return;
+    }
+
+    setIsBooking(true);
+    try {
+      const result = await apiService.verifyGuestOtp(guest.phone, code);
+      setVerification(result);
+      setVerifiedPhone(guest.phone);
+      await bookAsGuest(result);
+    } catch (error) {
+      setOtpCode('');
+      toast.error(error instanceof Error ? error.message : 'That code did not work. Please try again.');
+      setIsBooking(false);
+    }
+  };
+
+  const bookAsGuest = async (result: GuestVerification) => {
+    if (!provider) return;
+    setIsBooking(true);
+    try {
+      const booked = await apiService.bookGuestAppointment({
+        providerId: provider.id,
+        appointmentDate: selectedDate,
+        startTime: formatTimeTo24Hour(selectedTimeSlot),
+        serviceDescription: serviceDescription || undefined,
+        guestToken: result.guestToken,
+        firstName: guest.firstName,
+        lastName: guest.lastName,
+      });
+      setAppointment(booked);
+      setStep('confirmed');
+      toast.success('Appointment booked successfully!');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to book appointment';
+
+      if (errorMessage.includes('Unique constraint') || errorMessage.includes('already booked')) {
+        toast.error('This time slot is no longer available. Please select another slot.');
+        setStep('select');
+        loadTimeSlots(selectedDate);
+      } else {
+        toast.error(errorMessage);
+        setStep('select');
+      }
+    } finally {
+      setIsBooking(false);
+    }
+  };
+
+  // The link alone is enough to convert later: signup re-verifies the phone when the token is gone
+  const signupPath = `/signup?guestPhone=${encodeURIComponent(verifiedPhone || guest.phone)}`;
+
+  const handleCreateAccount = () => {
+    const state: SignupLocationState = hasValidVerification() && verification
+      ? { guest: { ...guest, guestToken: verification.guestToken } }
+      : {};
+    navigate(signupPath, { state });
+  };
+
+  const handleCopySignupLink = async () => {
+    const link = `${window.location.origin}${signupPath}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Sign-up link copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy sign-up link:', error);
+      toast.error(`Could not copy automatically. Your sign-up link is ${link}`);
+    }
+  };
+
+  const handleChooseProvider = (selected: Provider) => {
+    setSearchParams({ provider: selected.id });
+  };
+
+  const handleBookAnother = () => {
+    setAppointment(null);
+    setSelectedDate('');
+    setSelectedTimeSlot('');
+    setTimeSlots([]);
+    setServiceDescription('');
+    setStep('select');
+    if (provider) loadAvailableDates(provider);
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const formatTime = (isoString: string) => {
+    const date = new Date(isoString);
+    return date.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  const formatTimeTo24Hour = (isoString: string) => {
+    const date = new Date(isoString);
+    return date.toTimeString().slice(0, 5); // HH:mm format
+  };
+
+  const loginState: LoginLocationState = { from: `/customer/book?provider=${providerId ?? ''}` };
+  const selectedSlot = timeSlots.find(s => s.startTime === selectedTimeSlot);
+
+  if (isLoadingProvider) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin mx-auto text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto p-4 max-w-2xl">
+        <div className="mb-6 pt-6">
+          <h1 className="text-3xl font-bold">
+            {provider ? `Book with ${provider.businessName}` : 'Book an Appointment'}
+          </h1>
+          <p className="text-muted-foreground">
+            No account needed. Already have one?{' '}
+            <Link to="/login" state={loginState} className="text-primary hover:underline font-medium">
+              Log in
+            </Link>
+          </p>
+        </div>
+
+        {!provider ? (
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle>Find a provider</CardTitle>
+              <CardDescription>
+                {providerId
+                  ? 'This booking link is not valid. Search for your provider instead.'
+                  : 'Choose who you would like to book with'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ProviderSearch onSelect={handleChooseProvider} showProfileLink={false} />
+            </CardContent>
+          </Card>
+        ) : step === 'confirmed' && appointment ? (
+          <Card className="shadow-lg">
+            <CardHeader className="text-center">
+              <CheckCircle2 className="h-12 w-12 mx-auto text-green-600" />
+              <CardTitle className="text-2xl">You're booked!</CardTitle>
+              <CardDescription>
+                A confirmation has been sent to {guest.phone}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div className="flex items-center gap-2">
+                <Calendar className="h-4 w-4 text-muted-foreground" />
+                <span>{formatDate(appointment.appointmentDate)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-muted-foreground" />
+                <span>{formatTime(appointment.startTime)} - {formatTime(appointment.endTime)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <User className="h-4 w-4 text-muted-foreground" />
+                <span>{provider.businessName} · {provider.firstName} {provider.lastName}</span>
+              </div>
+              <div className="mt-4 rounded-md border bg-accent/50 p-3">
+                <p className="font-medium">Keep track of your appointments</p>
+                <p className="text-muted-foreground">
+                  Create an account with this phone number to see, cancel or reschedule this booking online.
+                  Not now? Sign up later with the same number and verify it to bring this booking along.
+                </p>
+                <Button variant="link" className="h-auto p-0" onClick={handleCopySignupLink}>
+                  <Link2 className="mr-1 h-4 w-4" />
+                  Copy sign-up link for later
+                </Button>
+              </div>
+            </CardContent>
+            <CardFooter className="flex flex-col sm:flex-row gap-2">
+              <Button className="w-full sm:flex-1" onClick={handleCreateAccount}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                Create an account
+              </Button>
+              <Button variant="outline" className="w-full sm:flex-1" onClick={handleBookAnother}>
+                Book another
+              </Button>
+            </CardFooter>
+          </Card>
+        ) : step === 'verify' ? (
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Verify your phone
+              </CardTitle>
+              <CardDescription>
+                Enter the {GUEST_OTP_LENGTH}-digit code we sent to {guest.phone}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col items-center gap-4">
+              <InputOTP
+                maxLength={GUEST_OTP_LENGTH}
+                value={otpCode}
+                onChange={setOtpCode}
+                onComplete={handleVerify}
+                disabled={isBooking}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: GUEST_OTP_LENGTH }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+              {selectedSlot && (
+                <p className="text-sm text-muted-foreground">
+                  Booking {formatDate(selectedDate)}, {formatTime(selectedSlot.startTime)} - {formatTime(selectedSlot.endTime)}
+                </p>
+              )}
+            </CardContent>
+            <CardFooter className="flex flex-col gap-3">
+              <Button className="w-full" onClick={() => handleVerify()} disabled={isBooking || otpCode.length !== GUEST_OTP_LENGTH}>
+                {isBooking ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Booking...
+                  </>
+                ) : (
+                  'Verify & Book'
+                )}
+              </Button>
+              <div className="flex justify-between w-full text-sm">
+                <Button variant="link" className="h-auto p-0" onClick={() => setStep('select')} disabled={isBooking}>
+                  Change details
+                </Button>
+                <Button
+                  variant="link"
+                  className="h-auto p-0"
+                  onClick={() => handleSendCode()}
+                  disabled={isBooking || isSendingCode || resendIn > 0}
+                >
+                  {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+                </Button>
+              </div>
+            </CardFooter>
+          </Card>
+        ) : (
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                Choose a time
+              </CardTitle>
+              <CardDescription>
+                {provider.firstName} {provider.lastName}
+                {provider.specialization && ` · ${provider.specialization}`}
+              </CardDescription>
+            </CardHeader>
+            <form onSubmit={handleSendCode}>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label className="text-base font-semibold">1. Select Date</Label>
+                  {isLoadingDates ? (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Loading dates...
+                    </div>
+                  ) : availableDates.some(d => d.isAvailable) ? (
+                    <AvailabilityCalendar
+                      dates={availableDates}
+                      selectedDate={selectedDate}
+                      onSelect={handleDateChange}
+                      bookingLimitDays={provider.bookingLimitDays || 30}
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground py-4">No dates available</p>
+                  )}
+                </div>
+
+                {selectedDate && (
+                  <div className="space-y-2">
+                    <Label htmlFor="timeSlot" className="text-base font-semibold flex items-center gap-2">
+                      <Clock className="h-4 w-4" />
+                      2. Select Time Slot
+                    </Label>
+                    <Select
+                      value={selectedTimeSlot}
+                      onValueChange={setSelectedTimeSlot}
+                      disabled={isLoadingSlots || timeSlots.length === 0}
+                    >
+                      <SelectTrigger id="timeSlot" className="w-full">
+                        <SelectValue placeholder={
+                          isLoadingSlots
+                            ? "Loading time slots..."
+                            : timeSlots.length === 0
+                            ? "No time slots available"
+                            : "Choose a time slot"
+                        } />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {timeSlots.filter(slot => slot.isAvailable).map((slot) => (
+                          <SelectItem key={slot.startTime} value={slot.startTime}>
+                            {formatTime(slot.startTime)} - {formatTime(slot.endTime)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {selectedTimeSlot && (
+                  <>
+                    <div className="space-y-2">
+                      <Label className="text-base font-semibold">3. Your Details</Label>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="firstName">First Name *</Label>
+                          <Input
+                            id="firstName"
+                            aria-invalid={!!fieldErrors.firstName}
+                            value={guest.firstName}
+                            onChange={(e) => handleGuestChange('firstName', e.target.value)}
+                            disabled={isSendingCode || isBooking}
+                          />
+                          <FieldError message={fieldErrors.firstName} />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="lastName">Last Name *</Label>
+                          <Input
+                            id="lastName"
+                            aria-invalid={!!fieldErrors.lastName}
+                            value={guest.lastName}
+                            onChange={(e) => handleGuestChange('lastName', e.target.value)}
+                            disabled={isSendingCode || isBooking}
+                          />
+                          <FieldError message={fieldErrors.lastName} />
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="phone">Phone Number *</Label>
+                        <div className="relative">
+                          <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                          <Input
+                            id="phone"
+                            aria-invalid={!!fieldErrors.phone}
+                            type="tel"
+                            placeholder="+1234567890"
+                            value={guest.phone}
+                            onChange={(e) => handleGuestChange('phone', e.target.value)}
+                            className="pl-10"
+                            disabled={isSendingCode || isBooking}
+                          />
+                        </div>
+                        <FieldError message={fieldErrors.phone} />
+                        <p className="text-xs text-muted-foreground">
+                          We'll text you a code to confirm it's you
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="serviceDescription">Service Description (Optional)</Label>
+                      <Textarea
+                        id="serviceDescription"
+                        placeholder="Describe the reason for your appointment..."
+                        value={serviceDescription}
+                        onChange={(e) => setServiceDescription(e.target.value)}
+                        rows={3}
+                      />
+                    </div>
+                  </>
+                )}
+              </CardContent>
+              {selectedTimeSlot && (
+                <CardFooter>
+                  <Button type="submit" className="w-full" size="lg" disabled={isSendingCode || isBooking}>
+                    {isSendingCode || isBooking ? (
+                      <>
+                        <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                        {isBooking ? 'Booking...' : 'Sending code...'}
+                      </>
+                    ) : hasValidVerification() ? (
+                      'Book Now'
+                    ) : (
+                      'Continue'
+                    )}
+                  </Button>
+                </CardFooter>
+              )}
+            </form>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,44 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
-import { apiService } from '../services/api';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
+import { useAuth, LoginLocationState } from '../contexts/AuthContext';
+import { apiService, User, FieldErrors, getFieldErrors } from '../services/api';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../components/ui/card';
+import { Alert, AlertDescription } from '../components/ui/alert';
+import { FieldError } from '../components/FieldError';
+import { HOME_BY_ROLE, isRouteForRole } from '../lib/role-routes';
 import { toast } from 'sonner';
-import { Loader2, Phone, Lock } from 'lucide-react';
+import { Loader2, Phone, Lock, Clock } from 'lucide-react';
 
 export default function Login() {
   const [phone, setPhone] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const { login, user, isLoading: isAuthLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const locationState = (location.state ?? {}) as LoginLocationState;
+
+  // Return to the page the user was on, as long as it belongs to their role
+  const getRedirectPath = (loggedInUser: User) => {
+    const { from } = locationState;
+    return from && isRouteForRole(from, loggedInUser.userType) ? from : HOME_BY_ROLE[loggedInUser.userType];
+  };
+
+  // Anyone may book without an account; visitors who followed a provider's booking link keep that provider
+  const guestBookingPath = locationState.from?.startsWith('/customer/book') && locationState.from.includes('provider=')
+    ? locationState.from.replace('/customer/book', '/guest/book')
+    : '/guest/book';
 
   // Redirect if already logged in
   useEffect(() => {
     if (!isAuthLoading && user) {
-      navigate('/customer');
+      navigate(getRedirectPath(user));
     }
-  }, [user, isAuthLoading, navigate]);
+  }, [user, isAuthLoading, navigate]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,20 +49,18 @@ export default function Login() {
     }
 
     setIsLoading(true);
+    setFieldErrors({});
     try {
       const response = await apiService.login({ phone, password });
-      login(response.user, response.accessToken);
+      login(response.user, response.accessToken, response.refreshToken);
       apiService.setToken(response.accessToken);
       
       toast.success('Login successful!');
       
       // Redirect based on user type from response
-      if (response.user.userType === 'provider') {
-        navigate('/provider');
-      } else {
-        navigate('/customer');
-      }
+      navigate(getRedirectPath(response.user), { replace: true });
     } catch (error) {
+      setFieldErrors(getFieldErrors(error));
       toast.error(error instanceof Error ? error.message : 'Login failed');
     } finally {
       setIsLoading(false);
@@ -63,12 +78,21 @@ export default function Login() {
         </CardHeader>
         <form onSubmit={handleSubmit}>
           <CardContent className="space-y-4">
+            {locationState.sessionExpired && (
+              <Alert>
+                <Clock className="h-4 w-4" />
+                <AlertDescription>
+                  Your session expired. Please log in again to continue where you left off.
+                </AlertDescription>
+              </Alert>
+            )}
             <div className="space-y-2">
               <Label htmlFor="phone">Phone Number</Label>
               <div className="relative">
                 <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
                   id="phone"
+                  aria-invalid={!!fieldErrors.phone}
                   type="tel"
                   placeholder="+1234567890"
                   value={phone}
@@ -77,6 +101,7 @@ export default function Login() {
                   disabled={isLoading}
                 />
               </div>
+              <FieldError message={fieldErrors.phone} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="password">Password</Label>
@@ -84,6 +109,7 @@ export default function Login() {
                 <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
                   id="password"
+                  aria-invalid={!!fieldErrors.password}
                   type="password"
                   placeholder="Enter your password"
                   value={password}
@@ -92,6 +118,7 @@ export default function Login() {
                   disabled={isLoading}
                 />
               </div>
+              <FieldError message={fieldErrors.password} />
             </div>
           </CardContent>
           <CardFooter className="flex flex-col space-y-4">
@@ -111,6 +138,9 @@ export default function Login() {
                 Sign up
               </Link>
             </div>
+            <Button type="button" variant="outline" className="w-full" onClick={() => navigate(guestBookingPath)}>
+              Continue as guest
+            </Button>
           </CardFooter>
         </form>
       </Card>
@@ -1,7 +1,7 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { apiService, ScheduleConfig, Provider as ProviderType, Appointment } from '../services/api';
+import { apiService, ScheduleConfig, Provider as ProviderType, Appointment, AppointmentStatus, AppointmentListRequest, FieldErrors, getFieldErrors } from '../services/api';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Input } from '../components/ui/input';
@@ -9,45 +9,55 @@ import { Label } from '../components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { RadioGroup, RadioGroupItem } from '../components/ui/radio-group';
 import { toast } from 'sonner';
-import { LogOut, Calendar, Clock, Plus, Trash2, Loader2, Users, Timer, Briefcase, Phone, Mail, UserCircle, AlertCircle, ChevronDown, ChevronUp, FileText, Hash } from 'lucide-react';
+import { LogOut, Link2, Pencil, Copy, CalendarRange, Calendar, CalendarDays, List, Clock, Plus, Trash2, Loader2, Users, Timer, Briefcase, Phone, Mail, UserCircle, AlertCircle, ChevronDown, ChevronUp, FileText, Hash, CheckCircle2, BadgeCheck, UserX } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '../components/ui/dialog';
 import { ReminderScheduleManager } from '../components/ReminderScheduleManager';
-
-const DAYS_OF_WEEK = [
-  { value: 0, label: 'Sunday' },
-  { value: 1, label: 'Monday' },
-  { value: 2, label: 'Tuesday' },
-  { value: 3, label: 'Wednesday' },
-  { value: 4, label: 'Thursday' },
-  { value: 5, label: 'Friday' },
-  { value: 6, label: 'Saturday' },
-];
-
-const PROVIDER_TYPES = [
-  'doctor',
-  'dentist',
-  'salon',
-  'spa',
-  'therapist',
-  'consultant',
-  'trainer',
-  'other'
-];
+import { AppointmentReminderLog } from '../components/AppointmentReminderLog';
+import { CancelAppointmentDialog } from '../components/CancelAppointmentDialog';
+import { RescheduleAppointmentDialog } from '../components/RescheduleAppointmentDialog';
+import { ProviderAgendaView } from '../components/ProviderAgendaView';
+import { ToggleGroup, ToggleGroupItem } from '../components/ui/toggle-group';
+import { AppointmentFilterBar } from '../components/AppointmentFilterBar';
+import { ListPagination } from '../components/ListPagination';
+import { FieldError } from '../components/FieldError';
+import { ScheduleEditForm } from '../components/ScheduleEditForm';
+import { ScheduleDayTimeline } from '../components/ScheduleDayTimeline';
+import { WeeklyScheduleTemplateDialog } from '../components/WeeklyScheduleTemplateDialog';
+import { ScheduleOverrideManager } from '../components/ScheduleOverrideManager';
+import { SlotCapacityDashboard } from '../components/SlotCapacityDashboard';
+import { DAYS_OF_WEEK, TimeBlock, nextBlockAfter, toMinutes, validateTimeBlocks } from '../lib/schedule-time';
+import { APPOINTMENT_STATUS_CONFIG, canTransition } from '../lib/appointment-status';
+import { PROVIDER_TYPES, formatProviderType } from '../lib/provider-types';
+
+const DEFAULT_BLOCK: TimeBlock = { startTime: '09:00', endTime: '17:00' };
+
+const APPOINTMENTS_PAGE_SIZE = 10;
 
 export default function Provider() {
-  const { user, logout, isLoading: isAuthLoading } = useAuth();
+  const { user, logout, updateUser } = useAuth();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const [providerProfile, setProviderProfile] = useState<ProviderType | null>(null);
   const [isLoadingProfile, setIsLoadingProfile] = useState(true);
   const [schedules, setSchedules] = useState<ScheduleConfig[]>([]);
   const [isLoadingSchedules, setIsLoadingSchedules] = useState(false);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [totalAppointments, setTotalAppointments] = useState(0);
+  const [totalAppointmentPages, setTotalAppointmentPages] = useState(1);
+  // Bumped per list request; a response that isn't the latest belongs to older filters and is dropped
+  const appointmentsRequestRef = useRef(0);
   const [isLoadingAppointments, setIsLoadingAppointments] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [showAddForm, setShowAddForm] = useState(false);
+  const [editingScheduleId, setEditingScheduleId] = useState<string | null>(null);
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
+  const [templateSourceDay, setTemplateSourceDay] = useState<number | null>(null);
   const [showProfileDialog, setShowProfileDialog] = useState(false);
   const [expandedAppointments, setExpandedAppointments] = useState<Set<string>>(new Set());
+  const [updatingAppointmentId, setUpdatingAppointmentId] = useState<string | null>(null);
+  const [appointmentView, setAppointmentView] = useState<'list' | 'calendar'>('list');
+  const [agendaRefreshKey, setAgendaRefreshKey] = useState(0);
 
   // Profile completion form
   const [profileForm, setProfileForm] = useState({
@@ -56,29 +66,60 @@ export default function Provider() {
     bookingLimitDays: 30,
   });
   const [isCreatingProfile, setIsCreatingProfile] = useState(false);
-
-  const [formData, setFormData] = useState({
+  const [profileFieldErrors, setProfileFieldErrors] = useState<FieldErrors>({});
+  const [scheduleFieldErrors, setScheduleFieldErrors] = useState<FieldErrors>({});
+
+  const [formData, setFormData] = useState<{
+    dayOfWeek: string;
+    blocks: TimeBlock[];
+    slotMetric: number;
+    isCount: boolean;
+  }>({
     dayOfWeek: '',
-    startTime: '09:00',
-    endTime: '17:00',
+    blocks: [{ ...DEFAULT_BLOCK }],
     slotMetric: 30,
     isCount: false,
   });
 
+  // Blocks already saved for the day being added to, so new ones can be checked against them
+  const existingDayBlocks = schedules.filter(s => formData.dayOfWeek !== '' && s.dayOfWeek === parseInt(formData.dayOfWeek));
+  const blockErrors = validateTimeBlocks(formData.blocks, existingDayBlocks);
+
   useEffect(() => {
-    if (!isAuthLoading && !user) {
-      navigate('/login');
-      return;
-    }
-    if (!isAuthLoading && user?.userType !== 'provider') {
-      navigate('/customer');
-      return;
-    }
-    if (user) {
-      loadProviderProfile();
-      loadAppointments(); // Load appointments regardless of profile status
-    }
-  }, [user, isAuthLoading, navigate]);
+    loadProviderProfile();
+  }, [user?.providerId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Filters live in the query string so filtered views can be bookmarked
+  const appointmentFilters: AppointmentListRequest = {
+    fromDate: searchParams.get('from') || undefined,
+    toDate: searchParams.get('to') || undefined,
+    status: (searchParams.get('status') as AppointmentStatus) || undefined,
+    search: searchParams.get('q') || undefined,
+  };
+  const appointmentPage = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [user?.id, searchParams]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const buildAppointmentParams = (filters: AppointmentListRequest, page: number) => {
+    const params = new URLSearchParams();
+    if (filters.fromDate) params.set('from', filters.fromDate);
+    if (filters.toDate) params.set('to', filters.toDate);
+    if (filters.status) params.set('status', filters.status);
+    if (filters.search) params.set('q', filters.search);
+    if (page > 1) params.set('page', page.toString());
+    return params;
+  };
+
+  const handleFiltersChange = (filters: AppointmentListRequest) => {
+    // Any filter change starts again from the first page
+    setSearchParams(buildAppointmentParams(filters, 1));
+  };
+
+  const handleAppointmentPageChange = (page: number) => {
+    setSearchParams(buildAppointmentParams(appointmentFilters, page));
+  };
 
   const loadProviderProfile = async () => {
     setIsLoadingProfile(true);
@@ -92,10 +133,7 @@ export default function Provider() {
         return;
       }
 
-      // Since we have providerId from login, we can load schedules directly
-      // Profile will be set when user creates it via the form
-      // For now, just check if providerId exists (which means profile exists)
-      setProviderProfile(null); // Will be set when profile is created
+      setProviderProfile(await apiService.getProviderProfile(providerId));
       loadSchedules();
     } catch (error) {
       console.error('Failed to load provider profile:', error);
@@ -106,20 +144,20 @@ export default function Provider() {
   };
 
   const loadAppointments = async () => {
+    const requestId = ++appointmentsRequestRef.current;
     setIsLoadingAppointments(true);
     try {
-      const appointmentList = await apiService.getProviderAppointments();
-      console.log('Loaded appointments:', appointmentList);
-
-      // Ensure we have an array
-      if (!Array.isArray(appointmentList)) {
-        console.error('Appointments response is not an array:', appointmentList);
-        setAppointments([]);
-        return;
-      }
+      const result = await apiService.getProviderAppointments({
+        ...appointmentFilters,
+        page: appointmentPage,
+        pageSize: APPOINTMENTS_PAGE_SIZE,
+      });
+      if (requestId !== appointmentsRequestRef.current) return;
+      setTotalAppointments(result.total);
+      setTotalAppointmentPages(result.totalPages);
 
-      // Sort by appointment date and time (upcoming first, then by status)
-      const sorted = appointmentList.sort((a, b) => {
+      // Sort the page by appointment date and time (upcoming first, then by status)
+      const sorted = result.items.sort((a, b) => {
         const dateA = new Date(a.appointmentDate).getTime();
         const dateB = new Date(b.appointmentDate).getTime();
 
@@ -143,11 +181,14 @@ export default function Provider() {
       });
       setAppointments(sorted);
     } catch (error) {
+      if (requestId !== appointmentsRequestRef.current) return;
       console.error('Failed to load appointments:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to load appointments');
       setAppointments([]);
+      setTotalAppointments(0);
+      setTotalAppointmentPages(1);
     } finally {
-      setIsLoadingAppointments(false);
+      if (requestId === appointmentsRequestRef.current) setIsLoadingAppointments(false);
     }
   };
 
@@ -160,6 +201,7 @@ export default function Provider() {
     }
 
     setIsCreatingProfile(true);
+    setProfileFieldErrors({});
     try {
       const profile = await apiService.createProviderProfile({
         providerType: profileForm.providerType,
@@ -170,6 +212,7 @@ export default function Provider() {
       // Ensure profile is set
       if (profile) {
         setProviderProfile(profile);
+        updateUser({ providerId: profile.id });
         setShowProfileDialog(false);
         toast.success('Profile created successfully! Now configure your schedule.');
         // Load schedules after profile creation
@@ -178,6 +221,7 @@ export default function Provider() {
         toast.error('Profile creation failed - no profile data returned');
       }
     } catch (error) {
+      setProfileFieldErrors(getFieldErrors(error));
       toast.error(error instanceof Error ? error.message : 'Failed to create profile');
     } finally {
       setIsCreatingProfile(false);
@@ -197,7 +241,9 @@ export default function Provider() {
       }
 
       const scheduleList = await apiService.getProviderSchedules(providerId);
-      setSchedules(scheduleList.sort((a: ScheduleConfig, b: ScheduleConfig) => a.dayOfWeek - b.dayOfWeek));
+      setSchedules(scheduleList.sort((a: ScheduleConfig, b: ScheduleConfig) =>
+        a.dayOfWeek - b.dayOfWeek || toMinutes(a.startTime) - toMinutes(b.startTime)
+      ));
     } catch (error) {
       console.error('Failed to load schedules:', error);
       // Don't show error toast for empty schedules
@@ -206,51 +252,82 @@ export default function Provider() {
     }
   };
 
+  const updateBlock = (index: number, changes: Partial<TimeBlock>) => {
+    setFormData(prev => ({
+      ...prev,
+      blocks: prev.blocks.map((block, i) => (i === index ? { ...block, ...changes } : block)),
+    }));
+  };
+
+  // A new block starts an hour after the last one ends, e.g. after a lunch break
+  // Null once the last block reaches the end of the day, which disables "Add Block"
+  const nextBlock = nextBlockAfter(formData.blocks[formData.blocks.length - 1] ?? DEFAULT_BLOCK);
+
+  const addBlock = () => {
+    if (!nextBlock) return;
+    setFormData(prev => ({ ...prev, blocks: [...prev.blocks, nextBlock] }));
+  };
+
+  const removeBlock = (index: number) => {
+    setFormData(prev => ({ ...prev, blocks: prev.blocks.filter((_, i) => i !== index) }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.dayOfWeek || !formData.startTime || !formData.endTime) {
+    if (!formData.dayOfWeek || formData.blocks.length === 0) {
       toast.error('Please fill in all required fields');
       return;
     }
 
+    const firstBlockError = blockErrors.find(Boolean);
+    if (firstBlockError) {
+      toast.error(firstBlockError);
+      return;
+    }
+
     if (formData.slotMetric <= 0) {
       toast.error('Slot metric must be greater than 0');
       return;
     }
 
     setIsSaving(true);
+    setScheduleFieldErrors({});
     try {
-      await apiService.createScheduleConfig({
-        dayOfWeek: parseInt(formData.dayOfWeek),
-        startTime: formData.startTime,
-        endTime: formData.endTime,
-        slotMetric: formData.slotMetric,
-        isCount: formData.isCount,
-      });
+      // One schedule config per block; sequential so a validation error stops the rest
+      for (const block of [...formData.blocks].sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime))) {
+        await apiService.createScheduleConfig({
+          dayOfWeek: parseInt(formData.dayOfWeek),
+          startTime: block.startTime,
+          endTime: block.endTime,
+          slotMetric: formData.slotMetric,
+          isCount: formData.isCount,
+        });
+      }
 
-      toast.success('Schedule configuration added successfully!');
+      toast.success(formData.blocks.length > 1
+        ? `${formData.blocks.length} working blocks added successfully!`
+        : 'Schedule configuration added successfully!');
 
       // Reset form
       setFormData({
         dayOfWeek: '',
-        startTime: '09:00',
-        endTime: '17:00',
+        blocks: [{ ...DEFAULT_BLOCK }],
         slotMetric: 30,
         isCount: false,
       });
       setShowAddForm(false);
-
-      // Reload schedules
+    } catch (error) {
+      setScheduleFieldErrors(getFieldErrors(error));
+      toast.error(error instanceof Error ? error.message : 'Failed to add schedule');
+    } finally {
+      setIsSaving(false);
+      // Reload schedules, including any blocks saved before a failure
       loadSchedules();
       // Reload appointments in case new slots are available
       if (providerProfile) {
         loadAppointments();
       }
-    } catch (error) {
-      toast.error(error instanceof Error ? error.message : 'Failed to add schedule');
-    } finally {
-      setIsSaving(false);
     }
   };
 
@@ -278,11 +355,74 @@ export default function Provider() {
     }
   };
 
+  const openTemplateDialog = (sourceDay: number | null) => {
+    setTemplateSourceDay(sourceDay);
+    setShowTemplateDialog(true);
+  };
+
+  const handleScheduleUpdated = (updated: ScheduleConfig) => {
+    setSchedules(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    setEditingScheduleId(null);
+  };
+
+  const handleStatusChange = async (appointment: Appointment, nextStatus: AppointmentStatus, reason?: string) => {
+    if (!canTransition(appointment.status, nextStatus)) {
+      toast.error(`Cannot move a ${APPOINTMENT_STATUS_CONFIG[appointment.status].label.toLowerCase()} appointment to ${APPOINTMENT_STATUS_CONFIG[nextStatus].label.toLowerCase()}`);
+      return;
+    }
+
+    setUpdatingAppointmentId(appointment.id);
+    try {
+      let updated: Appointment;
+      switch (nextStatus) {
+        case 'confirmed':
+          updated = await apiService.confirmAppointment(appointment.id);
+          break;
+        case 'completed':
+          updated = await apiService.completeAppointment(appointment.id);
+          break;
+        case 'no_show':
+          updated = await apiService.markAppointmentNoShow(appointment.id);
+          break;
+        case 'cancelled':
+          updated = await apiService.cancelAppointment(appointment.id, reason || '');
+          break;
+        default:
+          return;
+      }
+
+      setAppointments(prev => prev.map(a => a.id === appointment.id
+        ? { ...a, ...updated, status: updated?.status ?? nextStatus }
+        : a
+      ));
+      toast.success(`Appointment marked as ${APPOINTMENT_STATUS_CONFIG[nextStatus].label.toLowerCase()}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update appointment');
+    } finally {
+      setUpdatingAppointmentId(null);
+    }
+  };
+
   const handleLogout = () => {
     logout();
     navigate('/login');
   };
 
+  // Customers opening this link land in the booking flow with this provider already chosen
+  const handleCopyBookingLink = async () => {
+    const providerId = user?.providerId || providerProfile?.id;
+    if (!providerId) return;
+
+    const link = `${window.location.origin}/customer/book?provider=${providerId}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Booking link copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy booking link:', error);
+      toast.error(`Could not copy automatically. Your booking link is ${link}`);
+    }
+  };
+
   const getDayName = (dayOfWeek: number) => {
     return DAYS_OF_WEEK.find(d => d.value === dayOfWeek)?.label || 'Unknown';
   };
@@ -329,8 +469,23 @@ export default function Provider() {
     });
   };
 
-  // Show loading state while checking authentication
-  if (isAuthLoading || isLoadingProfile) {
+  const openAppointmentDetails = (appointment: Appointment) => {
+    const appointmentId = appointment.id;
+    setAppointmentView('list');
+    setExpandedAppointments(prev => new Set(prev).add(appointmentId));
+    // The agenda loads its own range, so narrow the list to that day when the booking is on another page
+    if (!appointments.some(a => a.id === appointmentId)) {
+      const date = appointment.appointmentDate.slice(0, 10);
+      setSearchParams(buildAppointmentParams({ fromDate: date, toDate: date }, 1));
+    }
+    // Wait for the list to render before scrolling to the card
+    requestAnimationFrame(() => {
+      document.getElementById(`appointment-${appointmentId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  };
+
+  // Show loading state while the profile loads
+  if (isLoadingProfile) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-100 dark:from-gray-900 dark:to-gray-800">
         <div className="text-center">
@@ -351,104 +506,112 @@ export default function Provider() {
             <p className="text-muted-foreground">Welcome, {user?.firstName} {user?.lastName}!</p>
           </div>
           <div className="flex gap-2">
-            <Dialog open={showProfileDialog} onOpenChange={setShowProfileDialog}>
-              <DialogTrigger asChild>
-                <Button variant={providerProfile ? "outline" : "default"} className={providerProfile ? "" : "bg-orange-500 hover:bg-orange-600"}>
-                  {providerProfile ? (
-                    <>
-                      <UserCircle className="mr-2 h-4 w-4" />
-                      Profile
-                    </>
-                  ) : (
-                    <>
-                      <AlertCircle className="mr-2 h-4 w-4" />
-                      Complete Profile
-                    </>
-                  )}
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-md">
-                <DialogHeader>
-                  <DialogTitle className="flex items-center gap-2">
-                    <Briefcase className="h-5 w-5" />
-                    {providerProfile ? 'Update Provider Profile' : 'Complete Your Provider Profile'}
-                  </DialogTitle>
-                  <DialogDescription>
-                    {providerProfile
-                      ? 'Update your provider information'
-                      : 'Fill in your details to start accepting appointments'}
-                  </DialogDescription>
-                </DialogHeader>
-                <form onSubmit={handleCreateProfile}>
-                  <div className="space-y-4 py-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="dialog-providerType">Provider Type *</Label>
-                      <Select
-                        value={profileForm.providerType}
-                        onValueChange={(value) => setProfileForm(prev => ({ ...prev, providerType: value }))}
-                      >
-                        <SelectTrigger id="dialog-providerType">
-                          <SelectValue placeholder="Select your provider type" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {PROVIDER_TYPES.map((type) => (
-                            <SelectItem key={type} value={type}>
-                              {type.charAt(0).toUpperCase() + type.slice(1)}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
+            {providerProfile && (
+              <Button variant="outline" onClick={handleCopyBookingLink}>
+                <Link2 className="mr-2 h-4 w-4" />
+                Copy Booking Link
+              </Button>
+            )}
+            {providerProfile && (
+              <Button variant="outline" onClick={() => navigate('/provider/settings')}>
+                <UserCircle className="mr-2 h-4 w-4" />
+                Profile
+              </Button>
+            )}
+            {!providerProfile && (
+              <Dialog open={showProfileDialog} onOpenChange={setShowProfileDialog}>
+                <DialogTrigger asChild>
+                  <Button className="bg-orange-500 hover:bg-orange-600">
+                    <AlertCircle className="mr-2 h-4 w-4" />
+                    Complete Profile
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-md">
+                  <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                      <Briefcase className="h-5 w-5" />
+                      Complete Your Provider Profile
+                    </DialogTitle>
+                    <DialogDescription>
+                      Fill in your details to start accepting appointments
+                    </DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleCreateProfile}>
+                    <div className="space-y-4 py-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="dialog-providerType">Provider Type *</Label>
+                        <Select
+                          value={profileForm.providerType}
+                          onValueChange={(value) => setProfileForm(prev => ({ ...prev, providerType: value }))}
+                        >
+                          <SelectTrigger id="dialog-providerType" aria-invalid={!!profileFieldErrors.providerType}>
+                            <SelectValue placeholder="Select your provider type" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PROVIDER_TYPES.map((type) => (
+                              <SelectItem key={type.value} value={type.value}>
+                                {type.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FieldError message={profileFieldErrors.providerType} />
+                      </div>
 
-                    <div className="space-y-2">
-                      <Label htmlFor="dialog-specialization">Specialization (Optional)</Label>
-                      <Input
-                        id="dialog-specialization"
-                        type="text"
-                        placeholder="e.g., Cardiologist, Hair Styling"
-                        value={profileForm.specialization}
-                        onChange={(e) => setProfileForm(prev => ({ ...prev, specialization: e.target.value }))}
-                      />
-                    </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="dialog-specialization">Specialization (Optional)</Label>
+                        <Input
+                          id="dialog-specialization"
+                          aria-invalid={!!profileFieldErrors.specialization}
+                          type="text"
+                          placeholder="e.g., Cardiologist, Hair Styling"
+                          value={profileForm.specialization}
+                          onChange={(e) => setProfileForm(prev => ({ ...prev, specialization: e.target.value }))}
+                        />
+                        <FieldError message={profileFieldErrors.specialization} />
+                      </div>
 
-                    <div className="space-y-2">
-                      <Label htmlFor="dialog-bookingLimitDays">Booking Limit (days in advance)</Label>
-                      <Input
-                        id="dialog-bookingLimitDays"
-                        type="number"
-                        min="1"
-                        max="365"
-                        value={profileForm.bookingLimitDays}
-                        onChange={(e) => setProfileForm(prev => ({ ...prev, bookingLimitDays: parseInt(e.target.value) }))}
-                      />
-                      <p className="text-xs text-muted-foreground">
-                        How far in advance customers can book (1-365 days)
-                      </p>
+                      <div className="space-y-2">
+                        <Label htmlFor="dialog-bookingLimitDays">Booking Limit (days in advance)</Label>
+                        <Input
+                          id="dialog-bookingLimitDays"
+                          aria-invalid={!!profileFieldErrors.bookingLimitDays}
+                          type="number"
+                          min="1"
+                          max="365"
+                          value={profileForm.bookingLimitDays}
+                          onChange={(e) => setProfileForm(prev => ({ ...prev, bookingLimitDays: parseInt(e.target.value) }))}
+                        />
+                        <FieldError message={profileFieldErrors.bookingLimitDays} />
+                        <p className="text-xs text-muted-foreground">
+                          How far in advance customers can book (1-365 days)
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex justify-end gap-2">
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => setShowProfileDialog(false)}
-                      disabled={isCreatingProfile}
-                    >
-                      Cancel
-                    </Button>
-                    <Button type="submit" disabled={isCreatingProfile}>
-                      {isCreatingProfile ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          {providerProfile ? 'Updating...' : 'Creating...'}
-                        </>
-                      ) : (
-                        providerProfile ? 'Update Profile' : 'Complete Setup'
-                      )}
-                    </Button>
-                  </div>
-                </form>
-              </DialogContent>
-            </Dialog>
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setShowProfileDialog(false)}
+                        disabled={isCreatingProfile}
+                      >
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={isCreatingProfile}>
+                        {isCreatingProfile ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Creating...
+                          </>
+                        ) : (
+                          'Complete Setup'
+                        )}
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            )}
             <Button variant="outline" onClick={handleLogout}>
               <LogOut className="mr-2 h-4 w-4" />
               Logout
@@ -493,7 +656,7 @@ export default function Provider() {
                 </div>
                 <div className="flex-1">
                   <h3 className="font-semibold text-lg">
-                    {providerProfile.providerType.charAt(0).toUpperCase() + providerProfile.providerType.slice(1)}
+                    {formatProviderType(providerProfile.providerType)}
                     {providerProfile.specialization && ` - ${providerProfile.specialization}`}
                   </h3>
                   <p className="text-sm text-muted-foreground">
@@ -513,9 +676,9 @@ export default function Provider() {
               <Calendar className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{appointments.length}</div>
+              <div className="text-2xl font-bold">{totalAppointments}</div>
               <p className="text-xs text-muted-foreground">
-                {appointments.length === 0 ? 'No appointments yet' : 'All bookings'}
+                {totalAppointments === 0 ? 'No appointments yet' : 'Matching bookings'}
               </p>
             </CardContent>
           </Card>
@@ -526,7 +689,7 @@ export default function Provider() {
               <Clock className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{schedules.length}</div>
+              <div className="text-2xl font-bold">{new Set(schedules.map(s => s.dayOfWeek)).size}</div>
               <p className="text-xs text-muted-foreground">
                 {schedules.length === 0 ? 'No schedules' : 'Days configured'}
               </p>
@@ -571,10 +734,16 @@ export default function Provider() {
                 </CardDescription>
               </div>
               {!showAddForm && (
-                <Button onClick={() => setShowAddForm(true)}>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Schedule
-                </Button>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => openTemplateDialog(null)}>
+                    <CalendarRange className="mr-2 h-4 w-4" />
+                    Weekly Template
+                  </Button>
+                  <Button onClick={() => setShowAddForm(true)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Schedule
+                  </Button>
+                </div>
               )}
             </div>
           </CardHeader>
@@ -588,7 +757,7 @@ export default function Provider() {
                       value={formData.dayOfWeek}
                       onValueChange={(value) => setFormData(prev => ({ ...prev, dayOfWeek: value }))}
                     >
-                      <SelectTrigger id="dayOfWeek">
+                      <SelectTrigger id="dayOfWeek" aria-invalid={!!scheduleFieldErrors.dayOfWeek}>
                         <SelectValue placeholder="Select day" />
                       </SelectTrigger>
                       <SelectContent>
@@ -599,6 +768,7 @@ export default function Provider() {
                         ))}
                       </SelectContent>
                     </Select>
+                    <FieldError message={scheduleFieldErrors.dayOfWeek} />
                   </div>
 
                   <div className="space-y-2">
@@ -627,42 +797,68 @@ export default function Provider() {
                   </div>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="startTime">Start Time *</Label>
-                    <Input
-                      id="startTime"
-                      type="time"
-                      value={formData.startTime}
-                      onChange={(e) => setFormData(prev => ({ ...prev, startTime: e.target.value }))}
-                    />
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="endTime">End Time *</Label>
-                    <Input
-                      id="endTime"
-                      type="time"
-                      value={formData.endTime}
-                      onChange={(e) => setFormData(prev => ({ ...prev, endTime: e.target.value }))}
-                    />
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Working Hours *</Label>
+                    <Button type="button" variant="outline" size="sm" onClick={addBlock} disabled={!nextBlock}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Block
+                    </Button>
                   </div>
+                  {formData.blocks.map((block, index) => (
+                    <div key={index} className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          aria-label={`Block ${index + 1} start time`}
+                          aria-invalid={!!blockErrors[index] || (index === 0 && !!scheduleFieldErrors.startTime)}
+                          type="time"
+                          value={block.startTime}
+                          onChange={(e) => updateBlock(index, { startTime: e.target.value })}
+                        />
+                        <span className="text-muted-foreground">to</span>
+                        <Input
+                          aria-label={`Block ${index + 1} end time`}
+                          aria-invalid={!!blockErrors[index] || (index === 0 && !!scheduleFieldErrors.endTime)}
+                          type="time"
+                          value={block.endTime}
+                          onChange={(e) => updateBlock(index, { endTime: e.target.value })}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeBlock(index)}
+                          disabled={formData.blocks.length === 1}
+                          title="Remove block"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <FieldError message={blockErrors[index] ?? undefined} />
+                    </div>
+                  ))}
+                  <FieldError message={scheduleFieldErrors.startTime || scheduleFieldErrors.endTime} />
+                  {formData.dayOfWeek !== '' && (
+                    <ScheduleDayTimeline existing={existingDayBlocks} drafts={formData.blocks} errors={blockErrors} />
+                  )}
+                </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="slotMetric">
-                      {formData.isCount ? 'Max Customers' : 'Minutes per Slot'} *
-                    </Label>
-                    <Input
-                      id="slotMetric"
-                      type="number"
-                      min="1"
-                      value={formData.slotMetric}
-                      onChange={(e) => setFormData(prev => ({
-                        ...prev,
-                        slotMetric: parseInt(e.target.value)
-                      }))}
-                    />
-                  </div>
+                <div className="space-y-2 md:w-1/3">
+                  <Label htmlFor="slotMetric">
+                    {formData.isCount ? 'Max Customers' : 'Minutes per Slot'} *
+                  </Label>
+                  <Input
+                    id="slotMetric"
+                    aria-invalid={!!scheduleFieldErrors.slotMetric}
+                    type="number"
+                    min="1"
+                    value={formData.slotMetric}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      slotMetric: parseInt(e.target.value)
+                    }))}
+                  />
+                  <FieldError message={scheduleFieldErrors.slotMetric} />
                 </div>
 
                 <div className="flex gap-2">
@@ -705,7 +901,18 @@ export default function Provider() {
               </div>
             ) : (
               <div className="space-y-3">
-                {schedules.map((schedule) => (
+                {schedules.map((schedule) => editingScheduleId === schedule.id ? (
+                  <div key={schedule.id} className="p-4 border rounded-lg bg-accent/50 space-y-3">
+                    <h4 className="font-semibold">Edit {getDayName(schedule.dayOfWeek)}</h4>
+                    <ScheduleEditForm
+                      schedule={schedule}
+                      providerId={schedule.providerId}
+                      otherBlocks={schedules.filter(s => s.dayOfWeek === schedule.dayOfWeek && s.id !== schedule.id)}
+                      onSaved={handleScheduleUpdated}
+                      onCancel={() => setEditingScheduleId(null)}
+                    />
+                  </div>
+                ) : (
                   <div
                     key={schedule.id}
                     className="flex items-center justify-between p-4 border rounded-lg hover:bg-accent/50 transition-colors"
@@ -743,9 +950,25 @@ export default function Provider() {
                         </p>
                       </div>
                     </div>
+                    <button
+                      onClick={() => openTemplateDialog(schedule.dayOfWeek)}
+                      className="ml-4 p-2 rounded-md bg-white border border-border text-muted-foreground hover:bg-accent hover:text-foreground transition-colors focus:outline-none focus:ring-2 focus:ring-ring shadow-sm"
+                      title={`Copy ${getDayName(schedule.dayOfWeek)} to other days`}
+                      type="button"
+                    >
+                      <Copy className="h-5 w-5" strokeWidth={2} />
+                    </button>
+                    <button
+                      onClick={() => setEditingScheduleId(schedule.id)}
+                      className="ml-2 p-2 rounded-md bg-white border border-border text-muted-foreground hover:bg-accent hover:text-foreground transition-colors focus:outline-none focus:ring-2 focus:ring-ring shadow-sm"
+                      title="Edit schedule"
+                      type="button"
+                    >
+                      <Pencil className="h-5 w-5" strokeWidth={2} />
+                    </button>
                     <button
                       onClick={() => handleDelete(schedule.id)}
-                      className="ml-4 p-2 rounded-md bg-white border border-border text-muted-foreground hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20 transition-colors focus:outline-none focus:ring-2 focus:ring-destructive/20 shadow-sm"
+                      className="ml-2 p-2 rounded-md bg-white border border-border text-muted-foreground hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20 transition-colors focus:outline-none focus:ring-2 focus:ring-destructive/20 shadow-sm"
                       title="Delete schedule"
                       type="button"
                     >
@@ -758,9 +981,29 @@ export default function Provider() {
           </CardContent>
         </Card>
 
+        <WeeklyScheduleTemplateDialog
+          open={showTemplateDialog}
+          onOpenChange={setShowTemplateDialog}
+          sourceDay={templateSourceDay}
+          schedules={schedules}
+          onCreated={loadSchedules}
+        />
+
+        {/* Date Overrides */}
+        <div className="mb-6">
+          <ScheduleOverrideManager />
+        </div>
+
+        {/* Slot Capacity */}
+        {user?.providerId && (
+          <div className="mb-6">
+            <SlotCapacityDashboard providerId={user.providerId} />
+          </div>
+        )}
+
         {/* Reminder Schedules */}
         <div className="mb-6">
-          <ReminderScheduleManager />
+          <ReminderScheduleManager provider={providerProfile} />
         </div>
 
         {/* Appointments */}
@@ -773,189 +1016,290 @@ export default function Provider() {
                   View all your scheduled appointments
                 </CardDescription>
               </div>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={loadAppointments}
-                disabled={isLoadingAppointments}
-              >
-                {isLoadingAppointments ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <Calendar className="h-4 w-4" />
-                )}
-              </Button>
+              <div className="flex items-center gap-2">
+                <ToggleGroup
+                  type="single"
+                  value={appointmentView}
+                  onValueChange={(value) => value && setAppointmentView(value as 'list' | 'calendar')}
+                  variant="outline"
+                  size="sm"
+                >
+                  <ToggleGroupItem value="list" title="List view">
+                    <List className="h-4 w-4" />
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="calendar" title="Calendar view">
+                    <CalendarDays className="h-4 w-4" />
+                  </ToggleGroupItem>
+                </ToggleGroup>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => appointmentView === 'calendar' ? setAgendaRefreshKey(key => key + 1) : loadAppointments()}
+                  disabled={isLoadingAppointments}
+                >
+                  {isLoadingAppointments ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Calendar className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
             </div>
           </CardHeader>
           <CardContent>
-            {isLoadingAppointments ? (
-              <div className="text-center py-8">
-                <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
-                <p className="mt-2 text-sm text-muted-foreground">Loading appointments...</p>
-              </div>
-            ) : appointments.length === 0 ? (
-              <div className="text-center py-12 text-muted-foreground">
-                <Calendar className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p className="text-lg font-medium">No appointments yet</p>
-                <p className="text-sm">Your booked appointments will appear here</p>
-              </div>
+            {appointmentView === 'calendar' ? (
+              <ProviderAgendaView
+                schedules={schedules}
+                onSelectAppointment={openAppointmentDetails}
+                refreshKey={agendaRefreshKey}
+              />
             ) : (
-              <div className="space-y-3">
-                {appointments.map((appointment) => {
-                  const isExpanded = expandedAppointments.has(appointment.id);
-                  return (
-                    <div
-                      key={appointment.id}
-                      className="border rounded-lg hover:bg-accent/50 transition-colors overflow-hidden"
-                    >
-                      <div className="flex items-start gap-4 p-4">
-                        <div className="flex items-center justify-center w-12 h-12 rounded-full bg-blue-100 dark:bg-blue-900/20 flex-shrink-0">
-                          <Users className="h-6 w-6 text-blue-600 dark:text-blue-400" />
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-start justify-between mb-3">
-                            <div className="flex-1">
-                              <h4 className="font-semibold text-lg mb-1">
-                                {appointment.customer?.user?.firstName} {appointment.customer?.user?.lastName}
-                              </h4>
-                              <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
-                                <Hash className="h-3 w-3" />
-                                <span className="font-mono">{appointment.id.slice(0, 8)}...</span>
-                              </div>
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <span className={`text-xs px-2 py-1 rounded-full font-medium flex-shrink-0 ${appointment.status === 'scheduled'
-                                ? 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-400'
-                                : appointment.status === 'cancelled'
-                                  ? 'bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-400'
-                                  : 'bg-gray-100 text-gray-700 dark:bg-gray-900/20 dark:text-gray-400'
-                                }`}>
-                                {appointment.status.charAt(0).toUpperCase() + appointment.status.slice(1)}
-                              </span>
-                              <button
-                                onClick={() => toggleAppointmentExpanded(appointment.id)}
-                                className="h-8 w-8 p-1.5 rounded-md bg-white border border-border text-muted-foreground hover:bg-accent hover:text-foreground transition-colors focus:outline-none focus:ring-2 focus:ring-ring shadow-sm"
-                                title={isExpanded ? "Collapse details" : "Expand details"}
-                                type="button"
-                              >
-                                {isExpanded ? (
-                                  <ChevronUp className="h-5 w-5" strokeWidth={2} />
-                                ) : (
-                                  <ChevronDown className="h-5 w-5" strokeWidth={2} />
-                                )}
-                              </button>
-                            </div>
-                          </div>
-
-                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
-                            <div className="space-y-2">
-                              <div className="flex items-center gap-2 text-muted-foreground">
-                                <Calendar className="h-4 w-4 flex-shrink-0 text-primary" />
-                                <span className="font-medium">Date:</span>
-                                <span>{formatDate(appointment.appointmentDate)}</span>
-                              </div>
-                              <div className="flex items-center gap-2 text-muted-foreground">
-                                <Clock className="h-4 w-4 flex-shrink-0 text-primary" />
-                                <span className="font-medium">Time:</span>
-                                <span>{formatTime(appointment.startTime)} - {formatTime(appointment.endTime)}</span>
-                              </div>
+              <>
+                <AppointmentFilterBar
+                  filters={appointmentFilters}
+                  onChange={handleFiltersChange}
+                  disabled={isLoadingAppointments}
+                />
+                {isLoadingAppointments ? (
+                  <div className="text-center py-8">
+                    <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+                    <p className="mt-2 text-sm text-muted-foreground">Loading appointments...</p>
+                  </div>
+                ) : appointments.length === 0 ? (
+                  <div className="text-center py-12 text-muted-foreground">
+                    <Calendar className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    {appointmentFilters.fromDate || appointmentFilters.toDate || appointmentFilters.status || appointmentFilters.search ? (
+                      <>
+                        <p className="text-lg font-medium">No matching appointments</p>
+                        <p className="text-sm">Try widening the date range or clearing the filters</p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-lg font-medium">No appointments yet</p>
+                        <p className="text-sm">Your booked appointments will appear here</p>
+                      </>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {appointments.map((appointment) => {
+                      const isExpanded = expandedAppointments.has(appointment.id);
+                      return (
+                        <div
+                          key={appointment.id}
+                          id={`appointment-${appointment.id}`}
+                          className="border rounded-lg hover:bg-accent/50 transition-colors overflow-hidden"
+                        >
+                          <div className="flex items-start gap-4 p-4">
+                            <div className="flex items-center justify-center w-12 h-12 rounded-full bg-blue-100 dark:bg-blue-900/20 flex-shrink-0">
+                              <Users className="h-6 w-6 text-blue-600 dark:text-blue-400" />
                             </div>
-                            <div className="space-y-2">
-                              {appointment.customer?.user?.phone && (
-                                <div className="flex items-center gap-2 text-muted-foreground">
-                                  <Phone className="h-4 w-4 flex-shrink-0 text-primary" />
-                                  <span className="font-medium">Phone:</span>
-                                  <span>{appointment.customer.user.phone}</span>
-                                </div>
-                              )}
-                              {appointment.customer?.user?.email && (
-                                <div className="flex items-center gap-2 text-muted-foreground">
-                                  <Mail className="h-4 w-4 flex-shrink-0 text-primary" />
-                                  <span className="font-medium">Email:</span>
-                                  <span className="truncate">{appointment.customer.user.email}</span>
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-start justify-between mb-3">
+                                <div className="flex-1">
+                                  <h4 className="font-semibold text-lg mb-1">
+                                    {appointment.customer?.user?.firstName} {appointment.customer?.user?.lastName}
+                                  </h4>
+                                  <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+                                    <Hash className="h-3 w-3" />
+                                    <span className="font-mono">{appointment.id.slice(0, 8)}...</span>
+                                  </div>
                                 </div>
-                              )}
-                            </div>
-                          </div>
-
-                          {appointment.serviceDescription && (
-                            <div className="mt-3 pt-3 border-t">
-                              <div className="flex items-start gap-2">
-                                <FileText className="h-4 w-4 text-primary mt-0.5 flex-shrink-0" />
-                                <div>
-                                  <p className="text-xs font-medium text-muted-foreground mb-1">Service Description</p>
-                                  <p className="text-sm">{appointment.serviceDescription}</p>
+                                <div className="flex items-center gap-2">
+                                  <span className={`text-xs px-2 py-1 rounded-full font-medium flex-shrink-0 ${APPOINTMENT_STATUS_CONFIG[appointment.status]?.className ?? 'bg-gray-100 text-gray-700 dark:bg-gray-900/20 dark:text-gray-400'}`}>
+                                    {APPOINTMENT_STATUS_CONFIG[appointment.status]?.label ?? appointment.status}
+                                  </span>
+                                  <button
+                                    onClick={() => toggleAppointmentExpanded(appointment.id)}
+                                    className="h-8 w-8 p-1.5 rounded-md bg-white border border-border text-muted-foreground hover:bg-accent hover:text-foreground transition-colors focus:outline-none focus:ring-2 focus:ring-ring shadow-sm"
+                                    title={isExpanded ? "Collapse details" : "Expand details"}
+                                    type="button"
+                                  >
+                                    {isExpanded ? (
+                                      <ChevronUp className="h-5 w-5" strokeWidth={2} />
+                                    ) : (
+                                      <ChevronDown className="h-5 w-5" strokeWidth={2} />
+                                    )}
+                                  </button>
                                 </div>
                               </div>
-                            </div>
-                          )}
 
-                          {/* Expanded Details */}
-                          {isExpanded && (
-                            <div className="mt-4 pt-4 border-t space-y-3">
-                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                                <div>
-                                  <p className="text-xs font-medium text-muted-foreground mb-1">Appointment ID</p>
-                                  <p className="font-mono text-xs break-all">{appointment.id}</p>
-                                </div>
-                                <div>
-                                  <p className="text-xs font-medium text-muted-foreground mb-1">Customer ID</p>
-                                  <p className="font-mono text-xs break-all">{appointment.customerId}</p>
-                                </div>
-                                <div>
-                                  <p className="text-xs font-medium text-muted-foreground mb-1">Created At</p>
-                                  <p className="text-xs">{formatDateTime(appointment.createdAt)}</p>
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                                <div className="space-y-2">
+                                  <div className="flex items-center gap-2 text-muted-foreground">
+                                    <Calendar className="h-4 w-4 flex-shrink-0 text-primary" />
+                                    <span className="font-medium">Date:</span>
+                                    <span>{formatDate(appointment.appointmentDate)}</span>
+                                  </div>
+                                  <div className="flex items-center gap-2 text-muted-foreground">
+                                    <Clock className="h-4 w-4 flex-shrink-0 text-primary" />
+                                    <span className="font-medium">Time:</span>
+                                    <span>{formatTime(appointment.startTime)} - {formatTime(appointment.endTime)}</span>
+                                  </div>
                                 </div>
-                                <div>
-                                  <p className="text-xs font-medium text-muted-foreground mb-1">Last Updated</p>
-                                  <p className="text-xs">{formatDateTime(appointment.updatedAt)}</p>
+                                <div className="space-y-2">
+                                  {appointment.customer?.user?.phone && (
+                                    <div className="flex items-center gap-2 text-muted-foreground">
+                                      <Phone className="h-4 w-4 flex-shrink-0 text-primary" />
+                                      <span className="font-medium">Phone:</span>
+                                      <span>{appointment.customer.user.phone}</span>
+                                    </div>
+                                  )}
+                                  {appointment.customer?.user?.email && (
+                                    <div className="flex items-center gap-2 text-muted-foreground">
+                                      <Mail className="h-4 w-4 flex-shrink-0 text-primary" />
+                                      <span className="font-medium">Email:</span>
+                                      <span className="truncate">{appointment.customer.user.email}</span>
+                                    </div>
+                                  )}
                                 </div>
                               </div>
 
-                              {appointment.notes && (
-                                <div className="pt-2 border-t">
-                                  <p className="text-xs font-medium text-muted-foreground mb-1">Notes</p>
-                                  <p className="text-sm">{appointment.notes}</p>
+                              {appointment.serviceDescription && (
+                                <div className="mt-3 pt-3 border-t">
+                                  <div className="flex items-start gap-2">
+                                    <FileText className="h-4 w-4 text-primary mt-0.5 flex-shrink-0" />
+                                    <div>
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Service Description</p>
+                                      <p className="text-sm">{appointment.serviceDescription}</p>
+                                    </div>
+                                  </div>
                                 </div>
                               )}
 
-                              {appointment.cancellationReason && (
-                                <div className="pt-2 border-t">
-                                  <p className="text-xs font-medium text-red-600 dark:text-red-400 mb-1">Cancellation Details</p>
-                                  <p className="text-sm text-red-600 dark:text-red-400">{appointment.cancellationReason}</p>
-                                  {appointment.cancelledBy && (
-                                    <p className="text-xs text-muted-foreground mt-1">
-                                      Cancelled by: {appointment.cancelledBy}
-                                    </p>
+                              {/* Status Actions */}
+                              {(APPOINTMENT_STATUS_CONFIG[appointment.status]?.transitions.length ?? 0) > 0 && (
+                                <div className="mt-3 pt-3 border-t flex flex-wrap items-center gap-2">
+                                  {canTransition(appointment.status, 'confirmed') && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleStatusChange(appointment, 'confirmed')}
+                                      disabled={updatingAppointmentId === appointment.id}
+                                    >
+                                      <BadgeCheck className="mr-2 h-4 w-4" />
+                                      Confirm
+                                    </Button>
                                   )}
-                                  {appointment.cancelledAt && (
-                                    <p className="text-xs text-muted-foreground">
-                                      Cancelled at: {formatDateTime(appointment.cancelledAt)}
-                                    </p>
+                                  {canTransition(appointment.status, 'completed') && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleStatusChange(appointment, 'completed')}
+                                      disabled={updatingAppointmentId === appointment.id}
+                                    >
+                                      <CheckCircle2 className="mr-2 h-4 w-4" />
+                                      Complete
+                                    </Button>
+                                  )}
+                                  {canTransition(appointment.status, 'no_show') && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleStatusChange(appointment, 'no_show')}
+                                      disabled={updatingAppointmentId === appointment.id}
+                                    >
+                                      <UserX className="mr-2 h-4 w-4" />
+                                      No-show
+                                    </Button>
+                                  )}
+                                  <RescheduleAppointmentDialog
+                                    appointment={appointment}
+                                    disabled={updatingAppointmentId === appointment.id}
+                                    onRescheduled={(updated) => setAppointments(prev => prev.map(a => a.id === updated.id ? { ...a, ...updated } : a))}
+                                  />
+                                  {canTransition(appointment.status, 'cancelled') && (
+                                    <CancelAppointmentDialog
+                                      appointment={appointment}
+                                      cancelledBy="provider"
+                                      disabled={updatingAppointmentId === appointment.id}
+                                      onConfirm={(reason) => handleStatusChange(appointment, 'cancelled', reason)}
+                                    />
+                                  )}
+                                  {updatingAppointmentId === appointment.id && (
+                                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
                                   )}
                                 </div>
                               )}
 
-                              {appointment.provider && (
-                                <div className="pt-2 border-t">
-                                  <p className="text-xs font-medium text-muted-foreground mb-2">Provider Information</p>
-                                  <div className="space-y-1 text-sm">
-                                    <p><span className="font-medium">Business:</span> {appointment.provider.businessName}</p>
-                                    {appointment.provider.specialization && (
-                                      <p><span className="font-medium">Specialization:</span> {appointment.provider.specialization}</p>
-                                    )}
-                                    <p><span className="font-medium">Type:</span> {appointment.provider.providerType}</p>
+                              {/* Expanded Details */}
+                              {isExpanded && (
+                                <div className="mt-4 pt-4 border-t space-y-3">
+                                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                    <div>
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Appointment ID</p>
+                                      <p className="font-mono text-xs break-all">{appointment.id}</p>
+                                    </div>
+                                    <div>
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Customer ID</p>
+                                      <p className="font-mono text-xs break-all">{appointment.customerId}</p>
+                                    </div>
+                                    <div>
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Created At</p>
+                                      <p className="text-xs">{formatDateTime(appointment.createdAt)}</p>
+                                    </div>
+                                    <div>
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Last Updated</p>
+                                      <p className="text-xs">{formatDateTime(appointment.updatedAt)}</p>
+                                    </div>
                                   </div>
+
+                                  {appointment.notes && (
+                                    <div className="pt-2 border-t">
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Notes</p>
+                                      <p className="text-sm">{appointment.notes}</p>
+                                    </div>
+                                  )}
+
+                                  {appointment.cancellationReason && (
+                                    <div className="pt-2 border-t">
+                                      <p className="text-xs font-medium text-red-600 dark:text-red-400 mb-1">Cancellation Details</p>
+                                      <p className="text-sm text-red-600 dark:text-red-400">{appointment.cancellationReason}</p>
+                                      {appointment.cancelledBy && (
+                                        <p className="text-xs text-muted-foreground mt-1">
+                                          Cancelled by: {appointment.cancelledBy}
+                                        </p>
+                                      )}
+                                      {appointment.cancelledAt && (
+                                        <p className="text-xs text-muted-foreground">
+                                          Cancelled at: {formatDateTime(appointment.cancelledAt)}
+                                        </p>
+                                      )}
+                                    </div>
+                                  )}
+
+                                  <AppointmentReminderLog appointment={appointment} />
+
+                                  {appointment.provider && (
+                                    <div className="pt-2 border-t">
+                                      <p className="text-xs font-medium text-muted-foreground mb-2">Provider Information</p>
+                                      <div className="space-y-1 text-sm">
+                                        <p><span className="font-medium">Business:</span> {appointment.provider.businessName}</p>
+                                        {appointment.provider.specialization && (
+                                          <p><span className="font-medium">Specialization:</span> {appointment.provider.specialization}</p>
+                                        )}
+                                        <p><span className="font-medium">Type:</span> {appointment.provider.providerType}</p>
+                                      </div>
+                                    </div>
+                                  )}
                                 </div>
                               )}
                             </div>
-                          )}
+                          </div>
                         </div>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
+                      );
+                    })}
+                  </div>
+                )}
+                {!isLoadingAppointments && (
+                  <ListPagination
+                    page={appointmentPage}
+                    totalPages={totalAppointmentPages}
+                    buildHref={(page) => `?${buildAppointmentParams(appointmentFilters, page).toString()}`}
+                    onPageChange={handleAppointmentPageChange}
+                  />
+                )}
+              </>
             )}
           </CardContent>
         </Card>
@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { apiService, Provider, ScheduleConfig, AvailableDate } from '../services/api';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { DAYS_OF_WEEK, toMinutes } from '../lib/schedule-time';
+import { formatProviderType } from '../lib/provider-types';
+import { toast } from 'sonner';
+import { ArrowLeft, BadgeCheck, Briefcase, Calendar, CalendarCheck, Clock, Loader2 } from 'lucide-react';
+
+// How many upcoming dates to offer as quick links
+const NEXT_DATES_COUNT = 5;
+
+export default function ProviderProfile() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const [provider, setProvider] = useState<Provider | null>(null);
+  const [schedules, setSchedules] = useState<ScheduleConfig[]>([]);
+  const [nextDates, setNextDates] = useState<AvailableDate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingAvailability, setIsLoadingAvailability] = useState(false);
+
+  useEffect(() => {
+    loadProvider();
+  }, [id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const loadProvider = async () => {
+    if (!id) return;
+    setIsLoading(true);
+    setNextDates([]);
+    try {
+      const profile = await apiService.getProviderProfile(id);
+      setProvider(profile);
+      if (profile) {
+        loadAvailability(profile);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadAvailability = async (profile: Provider) => {
+    setIsLoadingAvailability(true);
+    try {
+      const [scheduleList, dates] = await Promise.all([
+        apiService.getProviderSchedules(profile.id),
+        apiService.getAvailableDates({ providerId: profile.id, days: profile.bookingLimitDays || 30 }),
+      ]);
+      setSchedules([...scheduleList].sort((a, b) =>
+        a.dayOfWeek - b.dayOfWeek || toMinutes(a.startTime) - toMinutes(b.startTime)
+      ));
+      setNextDates(dates.filter(d => d.isAvailable).slice(0, NEXT_DATES_COUNT));
+    } catch (error) {
+      console.error('Failed to load provider availability:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load availability');
+    } finally {
+      setIsLoadingAvailability(false);
+    }
+  };
+
+  const bookWithProvider = (date?: string) => {
+    if (!provider) return;
+    const params = new URLSearchParams({ provider: provider.id });
+    if (date) params.set('date', date.slice(0, 10));
+    navigate(`/customer/book?${params.toString()}`);
+  };
+
+  const formatTime = (timeString: string) => {
+    const date = new Date(timeString);
+    return date.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+        <div className="text-center">
+          <Loader2 className="h-12 w-12 animate-spin mx-auto text-primary" />
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto p-4 max-w-4xl">
+        <div className="flex justify-between items-center mb-6 pt-6">
+          <Button variant="outline" onClick={() => navigate('/customer')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to booking
+          </Button>
+        </div>
+
+        {!provider ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-muted-foreground">
+              <p className="font-medium">Provider not found</p>
+              <p className="text-sm">This provider may no longer be accepting appointments</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <Card className="shadow-lg">
+              <CardHeader>
+                <div className="flex flex-wrap justify-between items-start gap-4">
+                  <div className="flex items-center gap-4">
+                    <div className="flex items-center justify-center w-14 h-14 rounded-full bg-primary/10">
+                      <Briefcase className="h-7 w-7 text-primary" />
+                    </div>
+                    <div>
+                      <CardTitle className="text-2xl">{provider.businessName}</CardTitle>
+                      <CardDescription>
+                        {provider.firstName} {provider.lastName}
+                        {' · '}{formatProviderType(provider.providerType)}
+                        {provider.specialization && ` · ${provider.specialization}`}
+                      </CardDescription>
+                    </div>
+                  </div>
+                  <Button size="lg" onClick={() => bookWithProvider()} disabled={!provider.isActive}>
+                    <CalendarCheck className="mr-2 h-5 w-5" />
+                    Book with this provider
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {provider.licenseNumber && (
+                  <Badge variant="outline" className="gap-1">
+                    <BadgeCheck className="h-3 w-3" />
+                    License {provider.licenseNumber}
+                  </Badge>
+                )}
+                {provider.bio ? (
+                  <p className="whitespace-pre-line">{provider.bio}</p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No bio provided yet.</p>
+                )}
+                {!provider.isActive && (
+                  <p className="text-sm text-muted-foreground">This provider is not taking new bookings right now.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Clock className="h-5 w-5" />
+                    Weekly Hours
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {isLoadingAvailability ? (
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  ) : (
+                    <dl className="space-y-2 text-sm">
+                      {DAYS_OF_WEEK.map((day) => {
+                        const blocks = schedules.filter(s => s.dayOfWeek === day.value);
+                        return (
+                          <div key={day.value} className="flex justify-between gap-4">
+                            <dt className="font-medium">{day.label}</dt>
+                            <dd className={blocks.length === 0 ? 'text-muted-foreground' : 'text-right'}>
+                              {blocks.length === 0
+                                ? 'Closed'
+                                : blocks.map(s => `${formatTime(s.startTime)} - ${formatTime(s.endTime)}`).join(', ')}
+                            </dd>
+                          </div>
+                        );
+                      })}
+                    </dl>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Calendar className="h-5 w-5" />
+                    Next Available Dates
+                  </CardTitle>
+                  <CardDescription>Pick a date to start booking on it</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {isLoadingAvailability ? (
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  ) : nextDates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No open dates in the next {provider.bookingLimitDays} days
+                    </p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {nextDates.map((date) => (
+                        <Button
+                          key={date.date}
+                          variant="outline"
+                          size="sm"
+                          title={date.reason}
+                          onClick={() => bookWithProvider(date.date)}
+                          disabled={!provider.isActive}
+                        >
+                          {formatDate(date.date)}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { apiService, Provider, ProviderProfileRequest, FieldErrors, getFieldErrors } from '../services/api';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Textarea } from '../components/ui/textarea';
+import { Badge } from '../components/ui/badge';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { FieldError } from '../components/FieldError';
+import { PROVIDER_TYPES } from '../lib/provider-types';
+import { toast } from 'sonner';
+import { AlertTriangle, ArrowLeft, Loader2, Settings } from 'lucide-react';
+
+type ProfileForm = Required<ProviderProfileRequest>;
+
+// Fields the backend reads when it generates bookable slots; changing them
+// reshapes future availability but leaves existing appointments alone
+const SLOT_GENERATION_FIELDS: Partial<Record<keyof ProfileForm, { label: string; describe: (value: number) => string }>> = {
+  slotDurationMinutes: {
+    label: 'Slot duration',
+    describe: (value) => `${value} minutes`,
+  },
+  bookingLimitDays: {
+    label: 'Booking window',
+    describe: (value) => `${value} days in advance`,
+  },
+};
+
+type NumberField = 'slotDurationMinutes' | 'bookingLimitDays' | 'cancellationNoticeHours';
+
+// Ranges shared by the number inputs and the pre-submit check; a cleared input parses to NaN
+const NUMBER_FIELD_LIMITS: Record<NumberField, { label: string; min: number; max: number }> = {
+  slotDurationMinutes: { label: 'Slot duration', min: 15, max: 240 },
+  bookingLimitDays: { label: 'Booking limit', min: 1, max: 365 },
+  cancellationNoticeHours: { label: 'Cancellation notice', min: 0, max: 168 },
+};
+
+const validateNumberFields = (form: ProfileForm): FieldErrors => {
+  const errors: FieldErrors = {};
+  (Object.keys(NUMBER_FIELD_LIMITS) as NumberField[]).forEach((field) => {
+    const { label, min, max } = NUMBER_FIELD_LIMITS[field];
+    const value = form[field];
+    if (!Number.isFinite(value) || value < min || value > max) {
+      errors[field] = `${label} must be between ${min} and ${max}`;
+    }
+  });
+  return errors;
+};
+
+const toForm = (profile: Provider): ProfileForm => ({
+  providerType: profile.providerType,
+  businessName: profile.businessName ?? '',
+  specialization: profile.specialization ?? '',
+  licenseNumber: profile.licenseNumber ?? '',
+  bio: profile.bio ?? '',
+  slotDurationMinutes: profile.slotDurationMinutes,
+  bookingLimitDays: profile.bookingLimitDays,
+  cancellationNoticeHours: profile.cancellationNoticeHours ?? 0,
+});
+
+export default function ProviderSettings() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [savedForm, setSavedForm] = useState<ProfileForm | null>(null);
+  const [formData, setFormData] = useState<ProfileForm | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+
+  useEffect(() => {
+    loadProfile();
+  }, [user?.providerId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const loadProfile = async () => {
+    if (!user?.providerId) return;
+    setIsLoading(true);
+    try {
+      const profile = await apiService.getProviderProfile(user.providerId);
+      if (!profile) {
+        toast.error('Failed to load provider profile');
+        return;
+      }
+      setSavedForm(toForm(profile));
+      setFormData(toForm(profile));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const changedFields = savedForm && formData
+    ? (Object.keys(formData) as (keyof ProfileForm)[]).filter(field => formData[field] !== savedForm[field])
+    : [];
+  // Half-typed numbers are not worth warning about until they are valid
+  const slotChanges = changedFields.filter(field =>
+    SLOT_GENERATION_FIELDS[field] && Number.isFinite(formData?.[field])
+  );
+
+  const handleChange = <K extends keyof ProfileForm>(field: K, value: ProfileForm[K]) => {
+    setFormData((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData || !user?.providerId) return;
+
+    if (!formData.providerType || !formData.businessName) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    const numberErrors = validateNumberFields(formData);
+    if (Object.keys(numberErrors).length > 0) {
+      setFieldErrors(numberErrors);
+      toast.error(Object.values(numberErrors)[0]);
+      return;
+    }
+
+    // Only send what changed so concurrent edits elsewhere are not overwritten
+    const changes: Partial<ProviderProfileRequest> = {};
+    changedFields.forEach((field) => {
+      Object.assign(changes, { [field]: formData[field] });
+    });
+
+    setIsSaving(true);
+    setFieldErrors({});
+    try {
+      const profile = await apiService.updateProviderProfile(user.providerId, changes);
+      setSavedForm(toForm(profile));
+      setFormData(toForm(profile));
+      toast.success(slotChanges.length > 0
+        ? 'Profile updated. New slots will use the updated settings.'
+        : 'Profile updated successfully');
+    } catch (error) {
+      setFieldErrors(getFieldErrors(error));
+      toast.error(error instanceof Error ? error.message : 'Failed to update profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const slotBadge = (field: keyof ProfileForm) => SLOT_GENERATION_FIELDS[field] && (
+    <Badge variant="outline" className="ml-2 font-normal">Affects future slots</Badge>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto p-4 max-w-3xl">
+        <div className="flex justify-between items-center mb-6 pt-6">
+          <div>
+            <h1 className="text-3xl font-bold">Profile Settings</h1>
+            <p className="text-muted-foreground">Keep your business details up to date</p>
+          </div>
+          <Button variant="outline" onClick={() => navigate('/provider')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Dashboard
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+            <p className="mt-2 text-sm text-muted-foreground">Loading profile...</p>
+          </div>
+        ) : !formData || !savedForm ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-muted-foreground">
+              <p className="font-medium">Your profile could not be loaded</p>
+              <Button variant="outline" className="mt-4" onClick={loadProfile}>
+                Try again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                Provider Profile
+              </CardTitle>
+              <CardDescription>
+                Customers see these details when they choose who to book with
+              </CardDescription>
+            </CardHeader>
+            <form onSubmit={handleSubmit}>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="providerType">Provider Type *</Label>
+                  <Select
+                    value={formData.providerType}
+                    onValueChange={(value) => handleChange('providerType', value)}
+                    disabled={isSaving}
+                  >
+                    <SelectTrigger id="providerType" aria-invalid={!!fieldErrors.providerType}>
+                      <SelectValue placeholder="Select your provider type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROVIDER_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FieldError message={fieldErrors.providerType} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="businessName">Business Name *</Label>
+                  <Input
+                    id="businessName"
+                    aria-invalid={!!fieldErrors.businessName}
+                    type="text"
+                    value={formData.businessName}
+                    onChange={(e) => handleChange('businessName', e.target.value)}
+                    disabled={isSaving}
+                  />
+                  <FieldError message={fieldErrors.businessName} />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="specialization">Specialization</Label>
+                    <Input
+                      id="specialization"
+                      aria-invalid={!!fieldErrors.specialization}
+                      type="text"
+                      placeholder="e.g., Cardiology, Hair Styling"
+                      value={formData.specialization}
+                      onChange={(e) => handleChange('specialization', e.target.value)}
+                      disabled={isSaving}
+                    />
+                    <FieldError message={fieldErrors.specialization} />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="licenseNumber">License Number</Label>
+                    <Input
+                      id="licenseNumber"
+                      aria-invalid={!!fieldErrors.licenseNumber}
+                      type="text"
+                      placeholder="e.g., MD12345"
+                      value={formData.licenseNumber}
+                      onChange={(e) => handleChange('licenseNumber', e.target.value)}
+                      disabled={isSaving}
+                    />
+                    <FieldError message={fieldErrors.licenseNumber} />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="bio">Bio</Label>
+                  <Textarea
+                    id="bio"
+                    aria-invalid={!!fieldErrors.bio}
+                    placeholder="Tell customers about your experience and expertise..."
+                    value={formData.bio}
+                    onChange={(e) => handleChange('bio', e.target.value)}
+                    disabled={isSaving}
+                    rows={4}
+                  />
+                  <FieldError message={fieldErrors.bio} />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="slotDuration">
+                      Slot Duration (minutes)
+                      {slotBadge('slotDurationMinutes')}
+                    </Label>
+                    <Input
+                      id="slotDuration"
+                      aria-invalid={!!fieldErrors.slotDurationMinutes}
+                      type="number"
+                      min={NUMBER_FIELD_LIMITS.slotDurationMinutes.min}
+                      max={NUMBER_FIELD_LIMITS.slotDurationMinutes.max}
+                      step="15"
+                      value={Number.isNaN(formData.slotDurationMinutes) ? '' : formData.slotDurationMinutes}
+                      onChange={(e) => handleChange('slotDurationMinutes', parseInt(e.target.value))}
+                      disabled={isSaving}
+                    />
+                    <FieldError message={fieldErrors.slotDurationMinutes} />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="bookingLimit">
+                      Booking Limit (days)
+                      {slotBadge('bookingLimitDays')}
+                    </Label>
+                    <Input
+                      id="bookingLimit"
+                      aria-invalid={!!fieldErrors.bookingLimitDays}
+                      type="number"
+                      min={NUMBER_FIELD_LIMITS.bookingLimitDays.min}
+                      max={NUMBER_FIELD_LIMITS.bookingLimitDays.max}
+                      value={Number.isNaN(formData.bookingLimitDays) ? '' : formData.bookingLimitDays}
+                      onChange={(e) => handleChange('bookingLimitDays', parseInt(e.target.value))}
+                      disabled={isSaving}
+                    />
+                    <FieldError message={fieldErrors.bookingLimitDays} />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="cancellationNotice">Cancellation Notice (hours)</Label>
+                  <Input
+                    id="cancellationNotice"
+                    aria-invalid={!!fieldErrors.cancellationNoticeHours}
+                    type="number"
+                    min={NUMBER_FIELD_LIMITS.cancellationNoticeHours.min}
+                    max={NUMBER_FIELD_LIMITS.cancellationNoticeHours.max}
+                    value={Number.isNaN(formData.cancellationNoticeHours) ? '' : formData.cancellationNoticeHours}
+                    onChange={(e) => handleChange('cancellationNoticeHours', parseInt(e.target.value))}
+                    disabled={isSaving}
+                  />
+                  <FieldError message={fieldErrors.cancellationNoticeHours} />
+                  <p className="text-xs text-muted-foreground">
+                    Customers cannot cancel online within this many hours of the appointment (0 allows any time)
+                  </p>
+                </div>
+
+                {slotChanges.length > 0 && (
+                  <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm dark:border-amber-900 dark:bg-amber-950/20">
+                    <p className="flex items-center gap-2 font-medium text-amber-900 dark:text-amber-100">
+                      <AlertTriangle className="h-4 w-4" />
+                      These changes affect future slot generation
+                    </p>
+                    <ul className="mt-2 space-y-1 text-amber-800 dark:text-amber-200">
+                      {slotChanges.map((field) => {
+                        const config = SLOT_GENERATION_FIELDS[field];
+                        if (!config) return null;
+                        return (
+                          <li key={field}>
+                            {config.label}: {config.describe(savedForm[field] as number)} &rarr; {config.describe(formData[field] as number)}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+                      Appointments already booked are kept as they are.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+              <CardFooter className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setFormData(savedForm)}
+                  disabled={isSaving || changedFields.length === 0}
+                >
+                  Discard changes
+                </Button>
+                <Button type="submit" disabled={isSaving || changedFields.length === 0}>
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    'Save Changes'
+                  )}
+                </Button>
+              </CardFooter>
+            </form>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,20 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { apiService } from '../services/api';
+import { apiService, FieldErrors, getFieldErrors } from '../services/api';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Textarea } from '../components/ui/textarea';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { FieldError } from '../components/FieldError';
+import { PROVIDER_TYPES } from '../lib/provider-types';
 import { toast } from 'sonner';
 import { Loader2, Briefcase } from 'lucide-react';
 
-const PROVIDER_TYPES = [
-  'doctor',
-  'dentist',
-  'salon',
-  'spa',
-  'therapist',
-  'consultant',
-  'trainer',
-  'other'
-];
-
 export default function ProviderSetup() {
-  const { user } = useAuth();
+  const { updateUser } = useAuth();
   const navigate = useNavigate();
   const [formData, setFormData] = useState({
     providerType: '',
@@ -33,8 +24,10 @@ export default function ProviderSetup() {
     bio: '',
     slotDurationMinutes: 30,
     bookingLimitDays: 60,
+    cancellationNoticeHours: 24,
   });
   const [isLoading, setIsLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -45,8 +38,9 @@ export default function ProviderSetup() {
     }
 
     setIsLoading(true);
+    setFieldErrors({});
     try {
-      await apiService.createProviderProfile({
+      const profile = await apiService.createProviderProfile({
         providerType: formData.providerType,
         businessName: formData.businessName,
         specialization: formData.specialization || undefined,
@@ -54,11 +48,14 @@ export default function ProviderSetup() {
         bio: formData.bio || undefined,
         slotDurationMinutes: formData.slotDurationMinutes,
         bookingLimitDays: formData.bookingLimitDays,
+        cancellationNoticeHours: formData.cancellationNoticeHours,
       });
 
+      updateUser({ providerId: profile.id });
       toast.success('Provider profile created successfully!');
       navigate('/provider');
     } catch (error) {
+      setFieldErrors(getFieldErrors(error));
       toast.error(error instanceof Error ? error.message : 'Failed to create profile');
     } finally {
       setIsLoading(false);
@@ -69,11 +66,6 @@ export default function ProviderSetup() {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
-  if (!user || user.userType !== 'provider') {
-    navigate('/login');
-    return null;
-  }
-
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-50 to-pink-100 dark:from-gray-900 dark:to-gray-800 p-4">
       <Card className="w-full max-w-2xl">
@@ -95,65 +87,74 @@ export default function ProviderSetup() {
                 onValueChange={(value) => handleChange('providerType', value)}
                 disabled={isLoading}
               >
-                <SelectTrigger id="providerType">
+                <SelectTrigger id="providerType" aria-invalid={!!fieldErrors.providerType}>
                   <SelectValue placeholder="Select your provider type" />
                 </SelectTrigger>
                 <SelectContent>
                   {PROVIDER_TYPES.map((type) => (
-                    <SelectItem key={type} value={type}>
-                      {type.charAt(0).toUpperCase() + type.slice(1)}
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              <FieldError message={fieldErrors.providerType} />
             </div>
 
             <div className="space-y-2">
               <Label htmlFor="businessName">Business Name *</Label>
               <Input
                 id="businessName"
+                aria-invalid={!!fieldErrors.businessName}
                 type="text"
                 placeholder="e.g., Health & Wellness Clinic"
                 value={formData.businessName}
                 onChange={(e) => handleChange('businessName', e.target.value)}
                 disabled={isLoading}
               />
+              <FieldError message={fieldErrors.businessName} />
             </div>
 
             <div className="space-y-2">
               <Label htmlFor="specialization">Specialization (Optional)</Label>
               <Input
                 id="specialization"
+                aria-invalid={!!fieldErrors.specialization}
                 type="text"
                 placeholder="e.g., Cardiology, Hair Styling"
                 value={formData.specialization}
                 onChange={(e) => handleChange('specialization', e.target.value)}
                 disabled={isLoading}
               />
+              <FieldError message={fieldErrors.specialization} />
             </div>
 
             <div className="space-y-2">
               <Label htmlFor="licenseNumber">License Number (Optional)</Label>
               <Input
                 id="licenseNumber"
+                aria-invalid={!!fieldErrors.licenseNumber}
                 type="text"
                 placeholder="e.g., MD12345"
                 value={formData.licenseNumber}
                 onChange={(e) => handleChange('licenseNumber', e.target.value)}
                 disabled={isLoading}
               />
+              <FieldError message={fieldErrors.licenseNumber} />
             </div>
 
             <div className="space-y-2">
               <Label htmlFor="bio">Bio (Optional)</Label>
               <Textarea
                 id="bio"
+                aria-invalid={!!fieldErrors.bio}
                 placeholder="Tell customers about your experience and expertise..."
                 value={formData.bio}
                 onChange={(e) => handleChange('bio', e.target.value)}
                 disabled={isLoading}
                 rows={4}
               />
+              <FieldError message={fieldErrors.bio} />
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -161,6 +162,7 @@ export default function ProviderSetup() {
                 <Label htmlFor="slotDuration">Slot Duration (minutes)</Label>
                 <Input
                   id="slotDuration"
+                  aria-invalid={!!fieldErrors.slotDurationMinutes}
                   type="number"
                   min="15"
                   max="240"
@@ -169,12 +171,14 @@ export default function ProviderSetup() {
                   onChange={(e) => handleChange('slotDurationMinutes', parseInt(e.target.value))}
                   disabled={isLoading}
                 />
+                <FieldError message={fieldErrors.slotDurationMinutes} />
               </div>
 
               <div className="space-y-2">
                 <Label htmlFor="bookingLimit">Booking Limit (days)</Label>
                 <Input
                   id="bookingLimit"
+                  aria-invalid={!!fieldErrors.bookingLimitDays}
                   type="number"
                   min="1"
                   max="365"
@@ -182,8 +186,27 @@ export default function ProviderSetup() {
                   onChange={(e) => handleChange('bookingLimitDays', parseInt(e.target.value))}
                   disabled={isLoading}
                 />
+                <FieldError message={fieldErrors.bookingLimitDays} />
               </div>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cancellationNotice">Cancellation Notice (hours)</Label>
+              <Input
+                id="cancellationNotice"
+                aria-invalid={!!fieldErrors.cancellationNoticeHours}
+                type="number"
+                min="0"
+                max="168"
+                value={formData.cancellationNoticeHours}
+                onChange={(e) => handleChange('cancellationNoticeHours', parseInt(e.target.value))}
+                disabled={isLoading}
+              />
+              <FieldError message={fieldErrors.cancellationNoticeHours} />
+              <p className="text-xs text-muted-foreground">
+                Customers cannot cancel online within this many hours of the appointment (0 allows any time)
+              </p>
+            </div>
           </CardContent>
           <CardFooter>
             <Button type="submit" className="w-full" disabled={isLoading}>
@@ -1,25 +1,41 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
-import { apiService } from '../services/api';
+import { useNavigate, useLocation, useSearchParams, Link } from 'react-router-dom';
+import { useAuth, SignupLocationState } from '../contexts/AuthContext';
+import { apiService, FieldErrors, getFieldErrors } from '../services/api';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { RadioGroup, RadioGroupItem } from '../components/ui/radio-group';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../components/ui/card';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '../components/ui/input-otp';
+import { FieldError } from '../components/FieldError';
+import { GUEST_OTP_LENGTH, DEFAULT_RESEND_SECONDS } from '../lib/guest-otp';
 import { toast } from 'sonner';
-import { Loader2, Phone, Lock, User, Mail, UserCircle, Briefcase } from 'lucide-react';
+import { Loader2, Phone, Lock, User, Mail, UserCircle, Briefcase, ShieldCheck } from 'lucide-react';
 
 export default function Signup() {
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  // A guest converting right after booking arrives with their verified details;
+  // one coming back later via their sign-up link only brings the phone and verifies it again
+  const guest = (location.state as SignupLocationState | null)?.guest;
+  const guestPhone = searchParams.get('guestPhone');
   const [formData, setFormData] = useState({
-    phone: '',
-    firstName: '',
-    lastName: '',
+    phone: guest?.phone ?? guestPhone ?? '',
+    firstName: guest?.firstName ?? '',
+    lastName: guest?.lastName ?? '',
     password: '',
     email: '',
     userType: 'customer' as 'customer' | 'provider',
   });
   const [isLoading, setIsLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [guestToken, setGuestToken] = useState(guest?.guestToken ?? '');
+  const [isClaimingGuest, setIsClaimingGuest] = useState(!!guestPhone && !guest);
+  const [isCodeSent, setIsCodeSent] = useState(false);
+  const [otpCode, setOtpCode] = useState('');
+  const [resendIn, setResendIn] = useState(0);
+  const [isVerifying, setIsVerifying] = useState(false);
   const { login, user, isLoading: isAuthLoading } = useAuth();
   const navigate = useNavigate();
 
@@ -30,6 +46,53 @@ export default function Signup() {
     }
   }, [user, isAuthLoading, navigate]);
 
+  // Counts down until another code may be requested
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(prev => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const handleSendGuestCode = async () => {
+    if (!formData.phone) {
+      toast.error('Please enter your phone number');
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const response = await apiService.requestGuestOtp(formData.phone);
+      setOtpCode('');
+      setIsCodeSent(true);
+      setResendIn(response.resendAfterSeconds ?? DEFAULT_RESEND_SECONDS);
+      toast.success(`We sent a ${GUEST_OTP_LENGTH}-digit code to ${formData.phone}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send verification code');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleVerifyGuestCode = async (code: string = otpCode) => {
+    if (code.length !== GUEST_OTP_LENGTH) {
+      toast.error(`Please enter the ${GUEST_OTP_LENGTH}-digit code`);
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const result = await apiService.verifyGuestOtp(formData.phone, code);
+      setGuestToken(result.guestToken);
+      setIsClaimingGuest(false);
+      toast.success('Phone verified. Your guest bookings will move to this account.');
+    } catch (error) {
+      setOtpCode('');
+      toast.error(error instanceof Error ? error.message : 'That code did not work. Please try again.');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -39,20 +102,24 @@ export default function Signup() {
     }
 
     setIsLoading(true);
+    setFieldErrors({});
     try {
-      const response = await apiService.register(formData);
-      login(response.user, response.accessToken);
+      const response = await apiService.register({ ...formData, guestToken: guestToken || undefined });
+      login(response.user, response.accessToken, response.refreshToken);
       apiService.setToken(response.accessToken);
       
-      toast.success('Account created successfully!');
+      toast.success(guestToken ? 'Account created! Your booking is now in My Appointments.' : 'Account created successfully!');
       
       // Redirect based on user type
       if (response.user.userType === 'provider') {
         navigate('/provider');
+      } else if (guestToken) {
+        navigate('/customer/appointments');
       } else {
         navigate('/customer');
       }
     } catch (error) {
+      setFieldErrors(getFieldErrors(error));
       toast.error(error instanceof Error ? error.message : 'Registration failed');
     } finally {
       setIsLoading(false);
@@ -61,6 +128,11 @@ export default function Signup() {
 
   const handleChange = (field: string, value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
+    // A guest token only vouches for the phone it was issued to
+    if (field === 'phone' && (guestToken || isCodeSent)) {
+      setGuestToken('');
+      setIsCodeSent(false);
+    }
   };
 
   return (
@@ -80,6 +152,7 @@ export default function Signup() {
                 <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
                   id="phone"
+                  aria-invalid={!!fieldErrors.phone}
                   type="tel"
                   placeholder="+1234567890"
                   value={formData.phone}
@@ -88,6 +161,68 @@ export default function Signup() {
                   disabled={isLoading}
                 />
               </div>
+              <FieldError message={fieldErrors.phone} />
+              {guestToken ? (
+                <p className="flex items-center gap-1 text-sm text-green-700 dark:text-green-400">
+                  <ShieldCheck className="h-4 w-4" />
+                  Phone verified. Your guest bookings will move to this account.
+                </p>
+              ) : !isClaimingGuest ? (
+                <Button type="button" variant="link" className="h-auto p-0 text-sm" onClick={() => setIsClaimingGuest(true)}>
+                  Booked as a guest before?
+                </Button>
+              ) : (
+                <div className="rounded-md border bg-accent/50 p-3 space-y-3 text-sm">
+                  <div>
+                    <p className="font-medium">Bring your guest bookings</p>
+                    <p className="text-muted-foreground">
+                      Verify the phone number above to add bookings made with it to your new account.
+                    </p>
+                  </div>
+                  {isCodeSent ? (
+                    <div className="space-y-2">
+                      <InputOTP
+                        maxLength={GUEST_OTP_LENGTH}
+                        value={otpCode}
+                        onChange={setOtpCode}
+                        onComplete={handleVerifyGuestCode}
+                        disabled={isVerifying}
+                      >
+                        <InputOTPGroup>
+                          {Array.from({ length: GUEST_OTP_LENGTH }, (_, index) => (
+                            <InputOTPSlot key={index} index={index} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                      <div className="flex justify-between">
+                        <Button
+                          type="button"
+                          size="sm"
+                          onClick={() => handleVerifyGuestCode()}
+                          disabled={isVerifying || otpCode.length !== GUEST_OTP_LENGTH}
+                        >
+                          {isVerifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          Verify
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="h-auto p-0"
+                          onClick={handleSendGuestCode}
+                          disabled={isVerifying || resendIn > 0}
+                        >
+                          {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <Button type="button" size="sm" variant="outline" onClick={handleSendGuestCode} disabled={isVerifying || isLoading}>
+                      {isVerifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Send code
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
             
             <div className="grid grid-cols-2 gap-4">
@@ -97,6 +232,7 @@ export default function Signup() {
                   <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
                     id="firstName"
+                    aria-invalid={!!fieldErrors.firstName}
                     type="text"
                     placeholder="First name"
                     value={formData.firstName}
@@ -105,6 +241,7 @@ export default function Signup() {
                     disabled={isLoading}
                   />
                 </div>
+                <FieldError message={fieldErrors.firstName} />
               </div>
               
               <div className="space-y-2">
@@ -113,6 +250,7 @@ export default function Signup() {
                   <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
                     id="lastName"
+                    aria-invalid={!!fieldErrors.lastName}
                     type="text"
                     placeholder="Last name"
                     value={formData.lastName}
@@ -121,6 +259,7 @@ export default function Signup() {
                     disabled={isLoading}
                   />
                 </div>
+                <FieldError message={fieldErrors.lastName} />
               </div>
             </div>
 
@@ -130,6 +269,7 @@ export default function Signup() {
                 <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
                   id="email"
+                  aria-invalid={!!fieldErrors.email}
                   type="email"
                   placeholder="Enter your email"
                   value={formData.email}
@@ -138,6 +278,7 @@ export default function Signup() {
                   disabled={isLoading}
                 />
               </div>
+              <FieldError message={fieldErrors.email} />
             </div>
 
             <div className="space-y-2">
@@ -146,6 +287,7 @@ export default function Signup() {
                 <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
                   id="password"
+                  aria-invalid={!!fieldErrors.password}
                   type="password"
                   placeholder="Create a password"
                   value={formData.password}
@@ -154,6 +296,7 @@ export default function Signup() {
                   disabled={isLoading}
                 />
               </div>
+              <FieldError message={fieldErrors.password} />
             </div>
 
             <div className="space-y-3">
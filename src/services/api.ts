@@ -2,6 +2,25 @@
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
 const REMINDER_SERVICE_BASE_URL = import.meta.env.VITE_REMINDER_SERVICE_BASE_URL || 'http://localhost:3000';
 
+// Transport settings for one backend; auth, token refresh, envelope unwrapping and ApiError are shared by all
+export interface BackendConfig {
+  baseUrl: string;
+  timeoutMs: number;
+  retries: number; // extra attempts after network failures, timeouts and 502/503/504 on idempotent requests
+}
+
+// Adding a service is a new entry here plus `backend: '<name>'` on its calls
+const BACKENDS = {
+  core: { baseUrl: API_BASE_URL, timeoutMs: 15000, retries: 2 },
+  reminders: { baseUrl: `${REMINDER_SERVICE_BASE_URL}/api`, timeoutMs: 10000, retries: 2 },
+} satisfies Record<string, BackendConfig>;
+
+export type BackendName = keyof typeof BACKENDS;
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+const RETRY_DELAY_MS = 300; // multiplied by the attempt number
+
 export interface LoginRequest {
   phone: string;
   password: string;
@@ -14,6 +33,7 @@ export interface RegisterRequest {
   password: string;
   email?: string;
   userType: 'customer' | 'provider';
+  guestToken?: string; // Moves bookings made as a verified guest onto the new account
 }
 
 export interface User {
@@ -28,8 +48,13 @@ export interface User {
 
 export interface ProviderProfileRequest {
   providerType: string;
+  businessName?: string;
   specialization?: string;
+  licenseNumber?: string;
+  bio?: string;
+  slotDurationMinutes?: number;
   bookingLimitDays?: number;
+  cancellationNoticeHours?: number;
 }
 
 export interface Provider {
@@ -45,9 +70,17 @@ export interface Provider {
   bio?: string;
   slotDurationMinutes: number;
   bookingLimitDays: number;
+  cancellationNoticeHours?: number; // Minimum hours before start a customer may still cancel
   isActive: boolean;
 }
 
+export interface ProviderSearchRequest {
+  query?: string; // Matched against name, business name and specialization
+  providerTypes?: string[]; // Any of these; empty or omitted means all types
+  availableWithinDays?: number; // Only providers with an open date in the next N days
+  limit?: number;
+}
+
 export interface ScheduleConfigRequest {
   dayOfWeek: number; // 0=Sunday, 1=Monday, etc.
   startTime: string; // HH:mm format
@@ -69,6 +102,13 @@ export interface ScheduleConfig {
   updatedAt: string;
 }
 
+// Outcome of one request in a createScheduleConfigs batch
+export interface ScheduleBatchResult {
+  request: ScheduleConfigRequest;
+  schedule?: ScheduleConfig;
+  error?: Error;
+}
+
 export interface AvailableDatesRequest {
   providerId: string;
   days: number;
@@ -80,6 +120,28 @@ export interface AvailableDate {
   dayName: string;
   isAvailable: boolean;
   reason?: string;
+  overrideType?: ScheduleOverrideType; // Set when a date-specific override decided this date
+}
+
+// Date-specific exceptions to the weekly schedule
+export type ScheduleOverrideType = 'closed' | 'extra_hours';
+
+export interface ScheduleOverrideRequest {
+  type: ScheduleOverrideType;
+  startDate: string; // YYYY-MM-DD format
+  endDate: string; // YYYY-MM-DD format, inclusive; equal to startDate for a single day
+  startTime?: string; // HH:mm format, extra_hours only
+  endTime?: string; // HH:mm format, extra_hours only
+  slotMetric?: number; // extra_hours only, same meaning as on ScheduleConfig
+  isCount?: boolean; // extra_hours only
+  reason?: string; // Shown to customers on the affected dates
+}
+
+export interface ScheduleOverride extends ScheduleOverrideRequest {
+  id: string;
+  providerId: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface AvailableSlotsRequest {
@@ -103,6 +165,25 @@ export interface BookAppointmentRequest {
   serviceDescription?: string;
 }
 
+// Guest checkout: the phone is verified with a one-time code instead of logging in
+export interface GuestOtpResponse {
+  expiresInSeconds: number;
+  resendAfterSeconds?: number;
+}
+
+export interface GuestVerification {
+  guestToken: string; // Proves the phone was verified; short-lived
+  expiresAt: string;
+}
+
+export interface GuestBookAppointmentRequest extends BookAppointmentRequest {
+  guestToken: string;
+  firstName: string;
+  lastName: string;
+}
+
+export type AppointmentStatus = 'scheduled' | 'confirmed' | 'completed' | 'no_show' | 'cancelled';
+
 export interface Appointment {
   id: string;
   customerId: string;
@@ -112,7 +193,7 @@ export interface Appointment {
   endTime: string;
   serviceDescription?: string;
   notes?: string;
-  status: string;
+  status: AppointmentStatus;
   cancellationReason?: string;
   cancelledBy?: string;
   cancelledAt?: string;
@@ -124,6 +205,7 @@ export interface Appointment {
     providerType: string;
     businessName: string;
     specialization?: string;
+    cancellationNoticeHours?: number;
     user: {
       id: string;
       firstName: string;
@@ -145,9 +227,41 @@ export interface Appointment {
   };
 }
 
+export interface AppointmentListRequest {
+  fromDate?: string; // YYYY-MM-DD format
+  toDate?: string; // YYYY-MM-DD format
+  status?: AppointmentStatus;
+  search?: string; // Matches customer name or phone
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export interface PaginatedResponse<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface CancelAppointmentRequest {
+  appointmentId: string;
+  reason: string;
+}
+
+export interface RescheduleAppointmentRequest {
+  appointmentId: string;
+  appointmentDate: string; // YYYY-MM-DD format
+  startTime: string; // HH:mm format
+}
+
+export type ReminderChannel = 'sms' | 'email' | 'in_app';
+
 export interface ReminderScheduleRequest {
   type: 'days_before' | 'percentage';
   value: number; // 1-365 for days_before, 1-100 for percentage
+  channel: ReminderChannel;
+  messageTemplate: string; // May contain {{placeholders}}, see lib/reminder-template
 }
 
 export interface ReminderSchedule {
@@ -155,11 +269,113 @@ export interface ReminderSchedule {
   providerId: string;
   type: 'days_before' | 'percentage';
   value: number;
+  channel?: ReminderChannel; // Absent on reminders created before channels existed (sent as SMS)
+  messageTemplate?: string;
+  isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export type ReminderDeliveryStatus = 'scheduled' | 'sent' | 'failed';
+
+// One reminder message for one appointment, as recorded by the reminder service
+export interface ReminderDelivery {
+  id: string;
+  appointmentId: string;
+  reminderScheduleId?: string; // Absent for manual re-sends
+  channel: ReminderChannel;
+  status: ReminderDeliveryStatus;
+  scheduledFor: string;
+  sentAt?: string;
+  failureReason?: string;
+  createdAt: string;
+}
+
+export interface AuthResponse {
+  user: User;
+  accessToken: string;
+  refreshToken?: string;
+}
+
+export interface RefreshTokenResponse {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+type SessionExpiredListener = () => void;
+
+interface RequestOptions extends RequestInit {
+  backend?: BackendName; // defaults to 'core'
+  idempotent?: boolean; // marks POST lookups as safe to replay on transient failures
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export type FieldErrors = Record<string, string>;
+
+// Error thrown for any non-2xx response, carrying what the backend told us about it
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, status: number, code?: string, fieldErrors: FieldErrors = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+  }
+
+  static async fromResponse(response: Response, fallbackMessage?: string): Promise<ApiError> {
+    const body = await response.json().catch(() => ({}));
+    const message = Array.isArray(body.message) ? body.message.join('; ') : body.message;
+    return new ApiError(
+      message || fallbackMessage || `HTTP error! status: ${response.status}`,
+      response.status,
+      body.code || body.error,
+      parseFieldErrors(body.errors ?? body.fieldErrors)
+    );
+  }
+}
+
+// Accepts { field: 'msg' }, { field: ['msg'] } or [{ field | property | path, message | constraints }]
+function parseFieldErrors(raw: unknown): FieldErrors {
+  const result: FieldErrors = {};
+  if (!raw || typeof raw !== 'object') {
+    return result;
+  }
+
+  if (Array.isArray(raw)) {
+    raw.forEach((item) => {
+      if (!item || typeof item !== 'object') return;
+      const field = item.field ?? item.property ?? (Array.isArray(item.path) ? item.path.join('.') : item.path);
+      const message = item.message ?? (item.constraints ? Object.values(item.constraints)[0] : undefined);
+      if (field && message && !result[field]) {
+        result[field] = String(message);
+      }
+    });
+    return result;
+  }
+
+  Object.entries(raw as Record<string, unknown>).forEach(([field, value]) => {
+    const message = Array.isArray(value) ? value[0] : value;
+    if (message) {
+      result[field] = String(message);
+    }
+  });
+  return result;
+}
+
+export function getFieldErrors(error: unknown): FieldErrors {
+  return error instanceof ApiError ? error.fieldErrors : {};
+}
+
 class ApiService {
+  // Shared so concurrent 401s wait on a single refresh call
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionExpiredListeners = new Set<SessionExpiredListener>();
+
   private getToken(): string | null {
     return localStorage.getItem('accessToken');
   }
@@ -170,27 +386,103 @@ class ApiService {
 
   clearToken() {
     localStorage.removeItem('accessToken');
+    localStorage.removeItem('refreshToken');
+  }
+
+  private getRefreshToken(): string | null {
+    return localStorage.getItem('refreshToken');
+  }
+
+  setRefreshToken(token: string) {
+    localStorage.setItem('refreshToken', token);
+  }
+
+  // Subscribe to session expiry (refresh failed or no refresh token); returns an unsubscribe function
+  onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  private notifySessionExpired() {
+    this.clearToken();
+    this.sessionExpiredListeners.forEach((listener) => listener());
+  }
+
+  private async refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        const refreshToken = this.getRefreshToken();
+        if (!refreshToken) {
+          return false;
+        }
+
+        try {
+          const response = await this.fetchWithRetry(BACKENDS.core, '/auth/refresh', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken }),
+          }, false);
+          if (!response.ok) {
+            return false;
+          }
+
+          const json = await response.json();
+          const data: RefreshTokenResponse = json.success !== undefined && json.data !== undefined ? json.data : json;
+          if (!data.accessToken) {
+            return false;
+          }
+
+          this.setToken(data.accessToken);
+          if (data.refreshToken) {
+            this.setRefreshToken(data.refreshToken);
+          }
+          return true;
+        } catch (error) {
+          console.error('Failed to refresh access token:', error);
+          return false;
+        }
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
   }
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestOptions = {},
+    isRetry = false
   ): Promise<T> {
+    const { backend = 'core', idempotent, ...init } = options;
     const token = this.getToken();
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
       ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      ...options.headers,
+      ...init.headers,
     };
-
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      ...options,
-      headers,
-    });
+    const canRetry = idempotent ?? IDEMPOTENT_METHODS.has((init.method ?? 'GET').toUpperCase());
+
+    const response = await this.fetchWithRetry(BACKENDS[backend], endpoint, { ...init, headers }, canRetry);
+
+    // Expired access token: refresh once and replay the original request. A replay that is
+    // rejected even with the fresh token ends the session just like a failed refresh.
+    // Auth endpoints are excluded so bad credentials still surface as errors.
+    if (response.status === 401 && token && !endpoint.startsWith('/auth/')) {
+      if (!isRetry && await this.refreshAccessToken()) {
+        return this.request<T>(endpoint, options, true);
+      }
+      this.notifySessionExpired();
+      throw new ApiError('Your session has expired. Please log in again.', 401, 'SESSION_EXPIRED');
+    }
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: 'An error occurred' }));
-      throw new Error(error.message || `HTTP error! status: ${response.status}`);
+      throw await ApiError.fromResponse(response);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
     }
 
     const json = await response.json();
@@ -203,15 +495,51 @@ class ApiService {
     return json as T;
   }
 
+  // Applies the backend timeout to each attempt and retries transient failures when replaying is safe
+  private async fetchWithRetry(
+    config: BackendConfig,
+    endpoint: string,
+    init: RequestInit,
+    canRetry: boolean
+  ): Promise<Response> {
+    const attempts = canRetry ? config.retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+      try {
+        const response = await fetch(`${config.baseUrl}${endpoint}`, { ...init, signal: controller.signal });
+        if (attempt < attempts && RETRYABLE_STATUSES.has(response.status)) {
+          await sleep(attempt * RETRY_DELAY_MS);
+          continue;
+        }
+        return response;
+      } catch (error) {
+        if (attempt < attempts) {
+          await sleep(attempt * RETRY_DELAY_MS);
+          continue;
+        }
+        if (controller.signal.aborted) {
+          throw new ApiError('The server took too long to respond. Please try again.', 0, 'TIMEOUT');
+        }
+        console.error(`Request to ${endpoint} failed:`, error);
+        throw new ApiError('Unable to reach the server. Check your connection and try again.', 0, 'NETWORK_ERROR');
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
   // Auth endpoints
-  async login(data: LoginRequest): Promise<{ user: User; accessToken: string }> {
+  async login(data: LoginRequest): Promise<AuthResponse> {
     return this.request('/auth/login', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
-  async register(data: RegisterRequest): Promise<{ user: User; accessToken: string }> {
+  async register(data: RegisterRequest): Promise<AuthResponse> {
     return this.request('/auth/register', {
       method: 'POST',
       body: JSON.stringify(data),
@@ -235,11 +563,28 @@ class ApiService {
     }
   }
 
+  // Update an existing provider profile; only the fields sent are changed
+  async updateProviderProfile(providerId: string, data: Partial<ProviderProfileRequest>): Promise<Provider> {
+    return this.request('/providers', {
+      method: 'PUT',
+      body: JSON.stringify({ providerId, ...data }),
+    });
+  }
+
   // Get providers by type
   async getProvidersByType(providerType: string): Promise<Provider[]> {
     return this.request(`/providers?type=${providerType}&isActive=true`);
   }
 
+  // Search active providers by text, type and upcoming availability
+  async searchProviders(data: ProviderSearchRequest): Promise<Provider[]> {
+    return this.request<Provider[]>('/providers/search', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      idempotent: true,
+    });
+  }
+
   // Schedule configuration
   async createScheduleConfig(data: ScheduleConfigRequest): Promise<ScheduleConfig> {
     return this.request('/providers/schedule', {
@@ -256,6 +601,29 @@ class ApiService {
         providerId,
         activeOnly,
       }),
+      idempotent: true,
+    });
+  }
+
+  // There is no batch endpoint: configs are created in parallel and each outcome is reported separately
+  async createScheduleConfigs(requests: ScheduleConfigRequest[]): Promise<ScheduleBatchResult[]> {
+    const results = await Promise.allSettled(requests.map((request) => this.createScheduleConfig(request)));
+    return results.map((result, index) => (
+      result.status === 'fulfilled'
+        ? { request: requests[index], schedule: result.value }
+        : { request: requests[index], error: result.reason instanceof Error ? result.reason : new Error(String(result.reason)) }
+    ));
+  }
+
+  // Existing bookings are kept even if they now fall outside the new hours
+  async updateScheduleConfig(providerId: string, configId: string, data: ScheduleConfigRequest): Promise<ScheduleConfig> {
+    return this.request('/providers/schedule', {
+      method: 'PUT',
+      body: JSON.stringify({
+        providerId,
+        configId,
+        ...data,
+      }),
     });
   }
 
@@ -270,11 +638,42 @@ class ApiService {
     });
   }
 
+  // Date overrides
+  async createScheduleOverride(data: ScheduleOverrideRequest): Promise<ScheduleOverride> {
+    return this.request('/providers/schedule/overrides', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async listScheduleOverrides(providerId: string, fromDate?: string): Promise<ScheduleOverride[]> {
+    const response = await this.request<ScheduleOverride[]>('/providers/schedule/overrides/list', {
+      method: 'POST',
+      body: JSON.stringify({
+        providerId,
+        fromDate,
+      }),
+      idempotent: true,
+    });
+    return Array.isArray(response) ? response : [];
+  }
+
+  async deleteScheduleOverride(providerId: string, overrideId: string): Promise<void> {
+    return this.request('/providers/schedule/overrides', {
+      method: 'DELETE',
+      body: JSON.stringify({
+        providerId,
+        overrideId,
+      }),
+    });
+  }
+
   // Available dates
   async getAvailableDates(data: AvailableDatesRequest): Promise<AvailableDate[]> {
     const response = await this.request<{ dates: AvailableDate[] }>('/providers/slots/available-dates', {
       method: 'POST',
       body: JSON.stringify(data),
+      idempotent: true,
     });
     // Extract dates array from response
     return response.dates || [];
@@ -285,6 +684,7 @@ class ApiService {
     const response = await this.request<{ slots: TimeSlot[] }>('/providers/slots/available', {
       method: 'POST',
       body: JSON.stringify(data),
+      idempotent: true,
     });
     // Extract slots array from response
     return response.slots || [];
@@ -298,79 +698,183 @@ class ApiService {
     });
   }
 
-  // Get provider appointments
-  async getProviderAppointments(): Promise<Appointment[]> {
-    const response = await this.request<Appointment[] | { success: boolean; data: Appointment[] }>('/appointments/list', {
+  // Send a one-time code to a guest's phone
+  async requestGuestOtp(phone: string): Promise<GuestOtpResponse> {
+    return this.request('/guest/otp', {
       method: 'POST',
-      body: JSON.stringify({}),
+      body: JSON.stringify({ phone }),
+    });
+  }
+
+  async verifyGuestOtp(phone: string, code: string): Promise<GuestVerification> {
+    return this.request('/guest/otp/verify', {
+      method: 'POST',
+      body: JSON.stringify({ phone, code }),
     });
+  }
+
+  // Book without an account, authorised by the token from verifyGuestOtp
+  async bookGuestAppointment(data: GuestBookAppointmentRequest): Promise<Appointment> {
+    return this.request('/appointments/guest/book', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
 
-    // Handle both wrapped and unwrapped responses
+  // Get provider appointments (filtered and paginated server-side)
+  async getProviderAppointments(params: AppointmentListRequest = {}): Promise<PaginatedResponse<Appointment>> {
+    const response = await this.request<Appointment[] | Partial<PaginatedResponse<Appointment>>>('/appointments/list', {
+      method: 'POST',
+      body: JSON.stringify(params),
+      idempotent: true,
+    });
+
+    const page = params.page ?? 1;
+    const pageSize = params.pageSize ?? 0;
+
+    // Older backends return the full, unpaginated array
     if (Array.isArray(response)) {
-      return response;
+      return {
+        items: response,
+        total: response.length,
+        page: 1,
+        pageSize: pageSize || response.length,
+        totalPages: 1,
+      };
     }
 
-    // If wrapped in { success, data }
-    if (response && typeof response === 'object' && 'data' in response && Array.isArray(response.data)) {
-      return response.data;
+    if (response && Array.isArray(response.items)) {
+      const total = response.total ?? response.items.length;
+      const size = response.pageSize ?? (pageSize || response.items.length);
+      return {
+        items: response.items,
+        total,
+        page: response.page ?? page,
+        pageSize: size,
+        totalPages: response.totalPages ?? Math.max(1, Math.ceil(total / (size || 1))),
+      };
     }
 
-    // Fallback to empty array
+    // Fallback to empty page
     console.error('Unexpected appointments response format:', response);
-    return [];
+    return { items: [], total: 0, page, pageSize, totalPages: 1 };
   }
 
-  // Reminder schedule management
-  async createReminderSchedule(data: ReminderScheduleRequest): Promise<ReminderSchedule> {
-    const token = this.getToken();
-    const response = await fetch(`${REMINDER_SERVICE_BASE_URL}/api/providers/reminders`, {
+  // Get the logged-in customer's appointments (includes nested provider)
+  async getCustomerAppointments(): Promise<Appointment[]> {
+    const response = await this.request<Appointment[]>('/appointments/customer/list', {
+      method: 'POST',
+      body: JSON.stringify({}),
+      idempotent: true,
+    });
+    return Array.isArray(response) ? response : [];
+  }
+
+  // Cancel appointment
+  async cancelAppointment(id: string, reason: string): Promise<Appointment> {
+    const data: CancelAppointmentRequest = { appointmentId: id, reason };
+    return this.request('/appointments/cancel', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      },
       body: JSON.stringify(data),
     });
+  }
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: 'Failed to create reminder schedule' }));
-      throw new Error(error.message || `HTTP error! status: ${response.status}`);
-    }
+  // Reschedule appointment (keeps the same appointment id and history)
+  async rescheduleAppointment(data: RescheduleAppointmentRequest): Promise<Appointment> {
+    return this.request('/appointments/reschedule', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
 
-    const json = await response.json();
-    // Handle wrapped response format
-    if (json.success !== undefined && json.data !== undefined) {
-      return json.data as ReminderSchedule;
-    }
-    return json as ReminderSchedule;
+  // Provider status workflow
+  async confirmAppointment(id: string): Promise<Appointment> {
+    return this.request('/appointments/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ appointmentId: id }),
+    });
+  }
+
+  async completeAppointment(id: string): Promise<Appointment> {
+    return this.request('/appointments/complete', {
+      method: 'POST',
+      body: JSON.stringify({ appointmentId: id }),
+    });
+  }
+
+  async markAppointmentNoShow(id: string): Promise<Appointment> {
+    return this.request('/appointments/no-show', {
+      method: 'POST',
+      body: JSON.stringify({ appointmentId: id }),
+    });
+  }
+
+  // Reminder schedule management
+  async createReminderSchedule(data: ReminderScheduleRequest): Promise<ReminderSchedule> {
+    return this.request('/providers/reminders', {
+      backend: 'reminders',
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
   }
 
   async listReminderSchedules(providerId: string, activeOnly: boolean = true): Promise<ReminderSchedule[]> {
-    const token = this.getToken();
-    const response = await fetch(`${REMINDER_SERVICE_BASE_URL}/api/providers/reminders/list`, {
+    const response = await this.request<ReminderSchedule[]>('/providers/reminders/list', {
+      backend: 'reminders',
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      },
       body: JSON.stringify({
         providerId,
         activeOnly,
       }),
+      idempotent: true,
     });
+    // Fallback for unwrapped non-array response
+    return Array.isArray(response) ? response : [];
+  }
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: 'Failed to fetch reminder schedules' }));
-      throw new Error(error.message || `HTTP error! status: ${response.status}`);
-    }
+  async updateReminderSchedule(reminderId: string, data: ReminderScheduleRequest): Promise<ReminderSchedule> {
+    return this.request('/providers/reminders', {
+      backend: 'reminders',
+      method: 'PUT',
+      body: JSON.stringify({ reminderId, ...data }),
+    });
+  }
 
-    const json = await response.json();
-    // Handle wrapped response format
-    if (json.success !== undefined && json.data !== undefined) {
-      return json.data as ReminderSchedule[];
-    }
-    // Fallback for unwrapped array response
-    return (Array.isArray(json) ? json : []) as ReminderSchedule[];
+  // Paused reminders stay listed (with activeOnly = false) but are not sent
+  async setReminderScheduleActive(reminderId: string, isActive: boolean): Promise<ReminderSchedule> {
+    return this.request(`/providers/reminders/${isActive ? 'activate' : 'deactivate'}`, {
+      backend: 'reminders',
+      method: 'POST',
+      body: JSON.stringify({ reminderId }),
+    });
+  }
+
+  async deleteReminderSchedule(reminderId: string): Promise<void> {
+    return this.request('/providers/reminders', {
+      backend: 'reminders',
+      method: 'DELETE',
+      body: JSON.stringify({ reminderId }),
+    });
+  }
+
+  // Reminder delivery log
+  async listReminderDeliveries(appointmentId: string): Promise<ReminderDelivery[]> {
+    const response = await this.request<ReminderDelivery[]>('/providers/reminders/deliveries', {
+      backend: 'reminders',
+      method: 'POST',
+      body: JSON.stringify({ appointmentId }),
+      idempotent: true,
+    });
+    return Array.isArray(response) ? response : [];
+  }
+
+  // Sends the same message again on the same channel; the new attempt is logged as its own delivery
+  async resendReminder(deliveryId: string): Promise<ReminderDelivery> {
+    return this.request('/providers/reminders/deliveries/resend', {
+      backend: 'reminders',
+      method: 'POST',
+      body: JSON.stringify({ deliveryId }),
+    });
   }
 }
 